@@ -20,6 +20,7 @@ import PortfolioPage from "@/pages/portfolio";
 import FeedPage from "@/pages/feed";
 import MePage from "@/pages/me";
 import AgentLeadsPage from "@/pages/agent-leads";
+import TasteSharePage from "@/pages/taste-share";
 
 function AgentLayout({ children }: { children: React.ReactNode }) {
   const style = {
@@ -105,6 +106,7 @@ function Router() {
       </Route>
       <Route path="/portfolio/:agentId" component={PortfolioPage} />
       <Route path="/my-taste" component={MyTaste} />
+      <Route path="/taste/:shareId" component={TasteSharePage} />
       <Route path="/discover">
         <Redirect to="/" />
       </Route>
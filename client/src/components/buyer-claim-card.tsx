@@ -0,0 +1,178 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CheckCircle2, Mail, Phone } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type BuyerIdentity = {
+  buyerId: string | null;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  emailVerifiedAt: string | null;
+  phoneVerifiedAt: string | null;
+  contactConsentAt: string | null;
+};
+
+type Channel = "email" | "phone";
+
+export function BuyerClaimCard() {
+  const [channel, setChannel] = useState<Channel>("email");
+  const [contact, setContact] = useState("");
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [consent, setConsent] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const { toast } = useToast();
+
+  const { data: identity } = useQuery<BuyerIdentity>({
+    queryKey: ["/api/buyer/identity"],
+  });
+
+  const { data: sessionContact } = useQuery<{ contact: string | null }>({
+    queryKey: ["/api/consumer/contact"],
+  });
+
+  // Start from whatever the buyer typed at the contact gate.
+  useEffect(() => {
+    const value = sessionContact?.contact;
+    if (!value || contact) return;
+    setChannel(value.includes("@") ? "email" : "phone");
+    setContact(value);
+  }, [sessionContact]);
+
+  const onError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/buyer/claim/start", { channel, contact });
+    },
+    onSuccess: () => {
+      setCodeSent(true);
+      toast({ title: `Code sent to ${contact}` });
+    },
+    onError,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/buyer/claim/verify", {
+        channel,
+        contact,
+        code,
+        consent,
+        ...(name.trim() ? { name: name.trim() } : {}),
+      });
+    },
+    onSuccess: () => {
+      setCodeSent(false);
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/buyer/identity"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/consumer/contact"] });
+    },
+    onError,
+  });
+
+  const verified = [
+    identity?.emailVerifiedAt ? identity.email : null,
+    identity?.phoneVerifiedAt ? identity.phone : null,
+  ].filter(Boolean);
+
+  return (
+    <Card className="p-4 space-y-3" data-testid="card-buyer-claim">
+      <div>
+        <h3 className="font-semibold">Share your contact with agents</h3>
+        <p className="text-xs text-muted-foreground">
+          Verify your email or phone so listing agents can reach you about homes you've matched with.
+        </p>
+      </div>
+
+      {verified.length > 0 && (
+        <p className="text-sm flex items-center gap-1.5" data-testid="text-buyer-verified">
+          <CheckCircle2 className="w-4 h-4 text-green-500" />
+          Verified: {verified.join(" · ")}
+        </p>
+      )}
+
+      <div className="flex gap-1 p-1 bg-muted rounded-md">
+        {(["email", "phone"] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => { setChannel(option); setContact(""); setCodeSent(false); }}
+            className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+              channel === option ? "bg-background text-foreground shadow-sm" : "text-muted-foreground"
+            }`}
+            data-testid={`button-claim-${option}`}
+          >
+            {option === "email" ? <Mail className="w-3.5 h-3.5" /> : <Phone className="w-3.5 h-3.5" />}
+            {option === "email" ? "Email" : "Phone"}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          type={channel === "email" ? "email" : "tel"}
+          value={contact}
+          onChange={(e) => { setContact(e.target.value); setCodeSent(false); }}
+          placeholder={channel === "email" ? "you@example.com" : "+1 555 123 4567"}
+          data-testid="input-claim-contact"
+        />
+        <Button
+          variant="outline"
+          onClick={() => startMutation.mutate()}
+          disabled={contact.trim().length < 3 || startMutation.isPending}
+          data-testid="button-claim-send"
+        >
+          {startMutation.isPending ? "Sending..." : codeSent ? "Resend" : "Send code"}
+        </Button>
+      </div>
+
+      {codeSent && (
+        <div className="space-y-3">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+            placeholder="6-digit code"
+            inputMode="numeric"
+            data-testid="input-claim-code"
+          />
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Your name (optional)"
+            maxLength={120}
+            data-testid="input-claim-name"
+          />
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="claim-consent"
+              checked={consent}
+              onCheckedChange={(checked) => setConsent(checked === true)}
+              data-testid="checkbox-claim-consent"
+            />
+            <Label htmlFor="claim-consent" className="text-xs font-normal leading-snug">
+              I agree to be contacted by listing agents about homes I've matched with.
+            </Label>
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => verifyMutation.mutate()}
+            disabled={code.length !== 6 || !consent || verifyMutation.isPending}
+            data-testid="button-claim-verify"
+          >
+            {verifyMutation.isPending ? "Verifying..." : "Verify"}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ListingCopyVariant, Property } from "@shared/schema";
+
+type VibeOption = { name: string };
+
+type GeneratedCopy = {
+  vibe: string;
+  accentVibe: string | null;
+  headline: string;
+  description: string;
+  socialCaption: string;
+  provider: string;
+};
+
+const EMPTY_DRAFT = { headline: "", description: "", socialCaption: "", provider: "template" };
+
+export function ListingCopyDialog({
+  property,
+  onOpenChange,
+}: {
+  property: Property | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [vibe, setVibe] = useState("");
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const { toast } = useToast();
+  const variantsKey = ["/api/properties", property?.id, "copy"];
+
+  const { data: vibeOptions } = useQuery<VibeOption[]>({
+    queryKey: ["/api/vibes"],
+    enabled: property !== null,
+  });
+
+  const { data: variants } = useQuery<ListingCopyVariant[]>({
+    queryKey: variantsKey,
+    enabled: property !== null,
+  });
+
+  useEffect(() => {
+    setVibe(property?.vibeTag && property.vibeTag !== "Unclassified" ? property.vibeTag : "");
+  }, [property]);
+
+  useEffect(() => {
+    const saved = variants?.find((v) => v.vibe === vibe);
+    setDraft(saved ? { headline: saved.headline, description: saved.description, socialCaption: saved.socialCaption, provider: saved.provider } : EMPTY_DRAFT);
+  }, [vibe, variants]);
+
+  const onError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/properties/${property!.id}/copy`, { vibe });
+      return (await res.json()) as GeneratedCopy;
+    },
+    onSuccess: (copy) => {
+      setDraft({ headline: copy.headline, description: copy.description, socialCaption: copy.socialCaption, provider: copy.provider });
+    },
+    onError,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/properties/${property!.id}/copy/${encodeURIComponent(vibe)}`, draft);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: variantsKey });
+      toast({ title: `Saved ${vibe} copy` });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (target: string) => {
+      await apiRequest("DELETE", `/api/properties/${property!.id}/copy/${encodeURIComponent(target)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: variantsKey });
+    },
+    onError,
+  });
+
+  const canSave = !!vibe && draft.headline.trim().length >= 3 && draft.description.trim().length >= 10 && draft.socialCaption.trim().length >= 3;
+
+  return (
+    <Dialog open={property !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto backdrop-blur-xl bg-card border-card-border" data-testid="dialog-listing-copy">
+        <DialogHeader>
+          <DialogTitle>Listing copy</DialogTitle>
+          <DialogDescription>
+            Draft copy for "{property?.title}" aimed at one vibe. Buyers whose top vibe matches a saved variant see it in their feed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {variants && variants.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {variants.map((v) => (
+              <Badge key={v.vibe} variant={v.vibe === vibe ? "default" : "outline"} className="gap-1 py-1 px-2">
+                <span className="cursor-pointer" onClick={() => setVibe(v.vibe)}>{v.vibe}</span>
+                <Trash2
+                  className="w-3 h-3 cursor-pointer"
+                  onClick={() => deleteMutation.mutate(v.vibe)}
+                  data-testid={`button-delete-copy-${v.vibe}`}
+                />
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Select value={vibe} onValueChange={setVibe}>
+            <SelectTrigger data-testid="select-copy-vibe">
+              <SelectValue placeholder="Choose a vibe" />
+            </SelectTrigger>
+            <SelectContent>
+              {(vibeOptions ?? []).map((option) => (
+                <SelectItem key={option.name} value={option.name}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={() => generateMutation.mutate()}
+            disabled={!vibe || generateMutation.isPending}
+            data-testid="button-generate-copy"
+          >
+            {generateMutation.isPending ? "Writing..." : "Generate"}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Input
+            value={draft.headline}
+            onChange={(e) => setDraft({ ...draft, headline: e.target.value })}
+            placeholder="Headline"
+            maxLength={120}
+            data-testid="input-copy-headline"
+          />
+          <Textarea
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Description"
+            rows={5}
+            data-testid="input-copy-description"
+          />
+          <Textarea
+            value={draft.socialCaption}
+            onChange={(e) => setDraft({ ...draft, socialCaption: e.target.value })}
+            placeholder="Social caption"
+            maxLength={300}
+            rows={2}
+            data-testid="input-copy-caption"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending} data-testid="button-save-copy">
+            {saveMutation.isPending ? "Saving..." : vibe ? `Save for ${vibe}` : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+type SimilarHome = {
+  id: number;
+  address: string;
+  price: number;
+  beds: number;
+  baths: number;
+  sqft: number;
+  heroPhotoUrl: string | null;
+  topVibe: string;
+  vibeTags: string[];
+  similarity: number;
+};
+
+type SimilarHomesResponse = {
+  listingId: number;
+  items: SimilarHome[];
+};
+
+export function SimilarHomesDeck({
+  listingId,
+  scope,
+  open,
+  onOpenChange,
+}: {
+  listingId: number;
+  scope?: "agent" | "organization";
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    if (open) setIndex(0);
+  }, [open, listingId]);
+
+  const { data, isLoading, error } = useQuery<SimilarHomesResponse>({
+    queryKey: ["/api/properties", listingId, "similar", scope],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "10" });
+      if (scope) params.set("scope", scope);
+      const res = await fetch(`/api/properties/${listingId}/similar?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    enabled: open,
+  });
+
+  const items = data?.items || [];
+  const current = items[index] || null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>More like this</DialogTitle>
+          <DialogDescription>
+            {items.length > 0 ? `${index + 1} of ${items.length}` : "Homes with a similar vibe, price and size"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Finding similar homes...</p>}
+        {error && <p className="text-sm text-destructive">Failed to load similar homes.</p>}
+        {data && items.length === 0 && <p className="text-sm text-muted-foreground">No similar homes yet.</p>}
+
+        {current && (
+          <div className="space-y-3">
+            <img
+              src={current.heroPhotoUrl || "/images/property-1.png"}
+              alt={current.address}
+              className="w-full h-48 object-cover rounded-md"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="font-semibold truncate">{current.address}</h3>
+              <Badge>{current.topVibe}</Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              ${Number(current.price || 0).toLocaleString()} · {current.beds} bd · {current.baths} ba · {current.sqft} sqft
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {current.vibeTags?.map((tag) => (
+                <Badge variant="outline" key={tag}>{tag}</Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">{Math.round(current.similarity)}% similar</p>
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={() => setIndex((i) => i - 1)} disabled={index === 0}>
+                Previous
+              </Button>
+              <Button onClick={() => setIndex((i) => i + 1)} disabled={index >= items.length - 1}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
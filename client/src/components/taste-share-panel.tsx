@@ -0,0 +1,99 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, Share2, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PublicTasteShare } from "@/pages/taste-share";
+
+const SHARES_KEY = ["/api/buyer/taste-shares"];
+
+export function TasteSharePanel() {
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ items: PublicTasteShare[] }>({
+    queryKey: SHARES_KEY,
+  });
+  const shares = data?.items ?? [];
+
+  const onError = (err: Error) => {
+    toast({ title: "Error", description: err.message, variant: "destructive" });
+  };
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({ title: "Copy this link", description: url });
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/buyer/taste-shares");
+      return (await res.json()) as PublicTasteShare;
+    },
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: SHARES_KEY });
+      copyLink(share.url);
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (shareId: string) => {
+      await apiRequest("DELETE", `/api/buyer/taste-shares/${shareId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SHARES_KEY });
+      toast({ title: "Link revoked" });
+    },
+    onError,
+  });
+
+  return (
+    <Card className="p-4 space-y-3" data-testid="card-taste-share-panel">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold">Share your taste</h3>
+          <p className="text-xs text-muted-foreground">
+            Links show a snapshot of your top vibes, never your account. Revoke a link at any time.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending}
+          data-testid="button-create-taste-share"
+        >
+          <Share2 className="w-4 h-4 mr-1" />
+          {createMutation.isPending ? "Creating..." : "New link"}
+        </Button>
+      </div>
+
+      {shares.map((share) => (
+        <div key={share.shareId} className="flex items-center gap-3" data-testid={`taste-share-${share.shareId}`}>
+          <img src={share.imageUrl} alt={share.headline} className="w-24 h-[50px] rounded object-cover shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{share.headline}</p>
+            <p className="text-xs text-muted-foreground">{new Date(share.createdAt).toLocaleDateString()}</p>
+          </div>
+          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => copyLink(share.url)} data-testid={`button-copy-share-${share.shareId}`}>
+            <Copy className="w-4 h-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={() => revokeMutation.mutate(share.shareId)}
+            disabled={revokeMutation.isPending}
+            data-testid={`button-revoke-share-${share.shareId}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </Card>
+  );
+}
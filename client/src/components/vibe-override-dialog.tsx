@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Property } from "@shared/schema";
+
+type VibeOption = { name: string };
+
+const MAX_PINNED_VIBES = 3;
+
+export function VibeOverrideDialog({
+  property,
+  onOpenChange,
+}: {
+  property: Property | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [vibes, setVibes] = useState<string[]>([]);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  const { data: vibeOptions } = useQuery<VibeOption[]>({
+    queryKey: ["/api/vibes"],
+    enabled: property !== null,
+  });
+
+  useEffect(() => {
+    setVibes(property?.vibeOverride?.vibes ?? []);
+    setReason(property?.vibeOverride?.reason ?? "");
+  }, [property]);
+
+  const mutationHandlers = (title: string) => ({
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      onOpenChange(false);
+      toast({ title });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/properties/${property!.id}/vibe-override`, { vibes, reason });
+    },
+    ...mutationHandlers("Vibe pinned"),
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/properties/${property!.id}/vibe-override`);
+    },
+    ...mutationHandlers("Automatic vibe restored"),
+  });
+
+  const toggle = (name: string) => {
+    if (vibes.includes(name)) {
+      setVibes(vibes.filter((v) => v !== name));
+    } else if (vibes.length < MAX_PINNED_VIBES) {
+      setVibes([...vibes, name]);
+    }
+  };
+
+  const auto = property?.vibeOverride?.auto;
+  const suggested = auto ? auto.vibeTag : property?.vibeTag;
+  const busy = pinMutation.isPending || clearMutation.isPending;
+
+  return (
+    <Dialog open={property !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md backdrop-blur-xl bg-card border-card-border" data-testid="dialog-vibe-override">
+        <DialogHeader>
+          <DialogTitle>Pin vibe</DialogTitle>
+          <DialogDescription>
+            Choose up to {MAX_PINNED_VIBES} vibes for "{property?.title}". Pinned vibes are kept when the listing is retagged or re-imported.
+            {suggested && <> The algorithm suggests <span className="font-medium">{suggested}</span>.</>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {(vibeOptions ?? []).map((option) => {
+            const index = vibes.indexOf(option.name);
+            return (
+              <Badge
+                key={option.name}
+                variant={index >= 0 ? "default" : "outline"}
+                className="cursor-pointer hover-elevate py-1 px-3"
+                onClick={() => toggle(option.name)}
+                data-testid={`badge-pin-vibe-${option.name}`}
+              >
+                {index >= 0 ? `${index + 1}. ` : ""}{option.name}
+              </Badge>
+            );
+          })}
+        </div>
+
+        <Textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Why does this listing read as this vibe?"
+          maxLength={500}
+          data-testid="input-pin-vibe-reason"
+        />
+
+        <DialogFooter className="gap-2">
+          {property?.vibeOverride && (
+            <Button variant="outline" onClick={() => clearMutation.mutate()} disabled={busy} data-testid="button-clear-vibe-override">
+              Clear pin
+            </Button>
+          )}
+          <Button
+            onClick={() => pinMutation.mutate()}
+            disabled={busy || vibes.length === 0 || reason.trim().length < 3}
+            data-testid="button-save-vibe-override"
+          >
+            {pinMutation.isPending ? "Saving..." : "Pin vibe"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,9 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { VIBES, type Vibe } from "@shared/tasteAlgorithm";
+import { VIBES } from "@shared/tasteAlgorithm";
 
 type BatchJob = {
   jobId: string;
@@ -14,26 +14,83 @@ type BatchJob = {
   error?: string | null;
 };
 
+type VibeOption = {
+  name: string;
+  builtIn: boolean;
+};
+
 type BatchResponse = {
   batchId: string;
   jobs: BatchJob[];
 };
 
+type ListingOption = {
+  id: number;
+  title: string;
+  location: string;
+};
+
+type ListingPhotosResponse = {
+  listingId: number;
+  stagingCandidate: {
+    url: string;
+    roomType: string;
+    stagingRoomType: (typeof ROOM_TYPES)[number];
+    qualityScore: number | null;
+  } | null;
+};
+
 const ROOM_TYPES = ["living", "bed", "kitchen", "bath", "office", "dining", "other"] as const;
 
 export default function StagingLab() {
   const [file, setFile] = useState<File | null>(null);
+  const [listingId, setListingId] = useState("");
+  const [listingPhotoUrl, setListingPhotoUrl] = useState<string | null>(null);
   const [roomType, setRoomType] = useState<(typeof ROOM_TYPES)[number]>("living");
   const [strictness, setStrictness] = useState<"normal" | "strict">("normal");
-  const [selectedVibes, setSelectedVibes] = useState<Vibe[]>([...VIBES]);
+  const [selectedVibes, setSelectedVibes] = useState<string[]>([...VIBES]);
   const [batchId, setBatchId] = useState<string | null>(null);
   const [jobs, setJobs] = useState<BatchJob[]>([]);
 
+  const { data: vibeOptions } = useQuery<VibeOption[]>({
+    queryKey: ["/api/vibes"],
+  });
+  const availableVibes = useMemo(
+    () => (vibeOptions && vibeOptions.length > 0 ? vibeOptions.map((v) => v.name) : [...VIBES]),
+    [vibeOptions]
+  );
+
+  useEffect(() => {
+    setSelectedVibes(availableVibes);
+  }, [availableVibes]);
+
+  const { data: listings = [] } = useQuery<ListingOption[]>({
+    queryKey: ["/api/properties"],
+  });
+
+  const { data: listingPhotos } = useQuery<ListingPhotosResponse>({
+    queryKey: ["/api/properties", listingId, "photos"],
+    enabled: !!listingId,
+  });
+  const stagingCandidate = listingPhotos?.stagingCandidate ?? null;
+
+  const selectListingPhoto = () => {
+    if (!stagingCandidate) return;
+    setListingPhotoUrl(stagingCandidate.url);
+    setRoomType(stagingCandidate.stagingRoomType);
+    setFile(null);
+  };
+
   const stageMutation = useMutation({
     mutationFn: async () => {
-      if (!file) throw new Error("Please upload an image");
+      if (!file && !listingPhotoUrl) throw new Error("Please upload an image");
       const fd = new FormData();
-      fd.append("image", file);
+      if (file) {
+        fd.append("image", file);
+      } else {
+        fd.append("imageUrl", listingPhotoUrl!);
+        fd.append("listingId", listingId);
+      }
       fd.append("roomType", roomType);
       fd.append("strictness", strictness);
       fd.append("vibes", JSON.stringify(selectedVibes));
@@ -51,7 +108,7 @@ export default function StagingLab() {
     },
   });
 
-  const toggleVibe = (vibe: Vibe) => {
+  const toggleVibe = (vibe: string) => {
     setSelectedVibes((prev) =>
       prev.includes(vibe) ? prev.filter((v) => v !== vibe) : [...prev, vibe]
     );
@@ -107,7 +164,14 @@ export default function StagingLab() {
 
       <Card className="p-4 space-y-3">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-          <Input type="file" accept="image/*" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+          <Input
+            type="file"
+            accept="image/*"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null);
+              setListingPhotoUrl(null);
+            }}
+          />
           <select
             value={roomType}
             onChange={(e) => setRoomType(e.target.value as (typeof ROOM_TYPES)[number])}
@@ -127,13 +191,49 @@ export default function StagingLab() {
           </select>
         </div>
 
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Or stage a listing photo</p>
+          <select
+            value={listingId}
+            onChange={(e) => {
+              setListingId(e.target.value);
+              setListingPhotoUrl(null);
+            }}
+            className="h-10 w-full rounded-md border px-3 bg-background"
+          >
+            <option value="">Choose a listing</option>
+            {listings.map((listing) => (
+              <option key={listing.id} value={listing.id}>{listing.title} · {listing.location}</option>
+            ))}
+          </select>
+          {listingId && listingPhotos && (
+            stagingCandidate ? (
+              <div className="flex items-center gap-3">
+                <img src={stagingCandidate.url} alt="Best empty room" className="h-20 w-28 object-cover rounded" />
+                <div className="space-y-1">
+                  <p className="text-sm">Best empty room: {stagingCandidate.roomType}</p>
+                  {listingPhotoUrl === stagingCandidate.url ? (
+                    <p className="text-xs text-muted-foreground">This photo will be staged.</p>
+                  ) : (
+                    <Button type="button" variant="outline" size="sm" onClick={selectListingPhoto}>
+                      Stage this photo
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">No empty-room photos found for this listing.</p>
+            )
+          )}
+        </div>
+
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <p className="text-sm font-medium">Vibes to generate</p>
-            <p className="text-xs text-muted-foreground">Selected: {selectedVibes.length} / {VIBES.length}</p>
+            <p className="text-xs text-muted-foreground">Selected: {selectedVibes.length} / {availableVibes.length}</p>
           </div>
           <div className="flex gap-2">
-            <Button type="button" variant="outline" size="sm" onClick={() => setSelectedVibes([...VIBES])}>
+            <Button type="button" variant="outline" size="sm" onClick={() => setSelectedVibes([...availableVibes])}>
               Select All
             </Button>
             <Button type="button" variant="outline" size="sm" onClick={() => setSelectedVibes([])}>
@@ -141,7 +241,7 @@ export default function StagingLab() {
             </Button>
           </div>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-            {VIBES.map((vibe) => (
+            {availableVibes.map((vibe) => (
               <label key={vibe} className="flex items-center gap-2 text-sm">
                 <input
                   type="checkbox"
@@ -154,7 +254,7 @@ export default function StagingLab() {
           </div>
         </div>
 
-        <Button onClick={() => stageMutation.mutate()} disabled={!file || stageMutation.isPending || selectedVibes.length === 0}>
+        <Button onClick={() => stageMutation.mutate()} disabled={(!file && !listingPhotoUrl) || stageMutation.isPending || selectedVibes.length === 0}>
           Generate {selectedVibes.length} Vibes
         </Button>
       </Card>
@@ -1,12 +1,17 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
 
 type AgentLead = {
   id: number;
   buyerId: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  contactConsentAt: string | null;
   listingId: number;
   address: string | null;
   matchScore: number;
@@ -14,12 +19,82 @@ type AgentLead = {
   topListingVibes: Array<{ vibe: string; score: number }>;
   talkTrack: string;
   avoidList: string[];
+  householdId: string | null;
+  memberAvoidLists: Array<{ buyerId: string; topVibe: string | null; avoidList: string[] }> | null;
   createdAt: string;
 };
 
+type MatchExplanation = {
+  matchScore: number;
+  vibeScore: number;
+  avoidancePenalty: number;
+  vibes: Array<{
+    vibe: string;
+    buyerWeight: number;
+    listingWeight: number;
+    contribution: number;
+    listingKeywords: string[];
+    swipes: Array<{
+      swipeEventId: string;
+      listingId: number;
+      address: string | null;
+      action: string;
+      weight: number;
+    }>;
+  }>;
+};
+
+function MatchExplanationPanel({ buyerId, listingId }: { buyerId: string; listingId: number }) {
+  const { data, isLoading, error } = useQuery<MatchExplanation>({
+    queryKey: ["/api/match/explain", buyerId, listingId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ buyerId, listingId: String(listingId) });
+      const res = await fetch(`/api/match/explain?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+  });
+
+  if (isLoading) return <p className="text-xs text-muted-foreground">Loading breakdown...</p>;
+  if (error || !data) return <p className="text-xs text-destructive">Could not load breakdown.</p>;
+
+  const drivers = data.vibes.filter((v) => v.contribution > 0);
+
+  return (
+    <div className="rounded-md border p-3 space-y-2 text-xs">
+      <p className="text-muted-foreground">
+        Vibe score {data.vibeScore}
+        {data.avoidancePenalty > 0 ? ` (−${Math.round(data.avoidancePenalty * 100)}% for avoided vibes)` : ""}
+        {" · "}Overall {data.matchScore}
+      </p>
+      {drivers.length === 0 && <p className="text-muted-foreground">No shared vibes between buyer and listing.</p>}
+      {drivers.map((v) => (
+        <div key={v.vibe} className="space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">{v.vibe}</span>
+            <span>+{v.contribution.toFixed(1)} pts</span>
+          </div>
+          {v.listingKeywords.length > 0 && (
+            <p className="text-muted-foreground">Listing cues: {v.listingKeywords.join(", ")}</p>
+          )}
+          {v.swipes.length > 0 && (
+            <p className="text-muted-foreground">
+              From swipes:{" "}
+              {v.swipes
+                .map((swipe) => `${swipe.action} on ${swipe.address || `#${swipe.listingId}`}`)
+                .join("; ")}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function AgentLeadsPage() {
   const { user } = useAuth();
   const agentId = useMemo(() => String(user?.id || ""), [user?.id]);
+  const [expandedLeadId, setExpandedLeadId] = useState<number | null>(null);
 
   const { data = [], isLoading } = useQuery<AgentLead[]>({
     queryKey: ["/api/agent/leads", agentId],
@@ -46,8 +121,41 @@ export default function AgentLeadsPage() {
               <Badge>{lead.matchScore}%</Badge>
             </div>
             <p className="text-sm text-muted-foreground">Buyer vibe: {topBuyer} · Listing vibe: {topListing}</p>
+            {lead.contactConsentAt ? (
+              <p className="text-sm">
+                {lead.name}
+                {lead.email ? ` · ${lead.email}` : ""}
+                {lead.phone !== "N/A" ? ` · ${lead.phone}` : ""}
+                <span className="text-xs text-muted-foreground">
+                  {" "}(consented {new Date(lead.contactConsentAt).toLocaleDateString()})
+                </span>
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">Buyer has not shared contact details yet.</p>
+            )}
             <p className="text-sm">{lead.talkTrack}</p>
-            <p className="text-xs text-muted-foreground">Avoid: {(lead.avoidList || []).join(", ") || "None"}</p>
+            {lead.memberAvoidLists && lead.memberAvoidLists.length > 0 ? (
+              <div className="space-y-0.5">
+                <p className="text-xs font-medium">Household</p>
+                {lead.memberAvoidLists.map((member, i) => (
+                  <p key={member.buyerId} className="text-xs text-muted-foreground">
+                    Buyer {i + 1} ({member.topVibe || "Unknown"}) avoid: {member.avoidList.join(", ") || "None"}
+                  </p>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">Avoid: {(lead.avoidList || []).join(", ") || "None"}</p>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setExpandedLeadId(expandedLeadId === lead.id ? null : lead.id)}
+            >
+              {expandedLeadId === lead.id ? "Hide breakdown" : "Why this score?"}
+            </Button>
+            {expandedLeadId === lead.id && (
+              <MatchExplanationPanel buyerId={lead.buyerId} listingId={lead.listingId} />
+            )}
           </Card>
         );
       })}
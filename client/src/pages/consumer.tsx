@@ -1,7 +1,7 @@
 import { useState, useCallback, useRef, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery, useMutation } from "@tanstack/react-query";
 import { motion, useMotionValue, useTransform, animate, PanInfo, AnimatePresence } from "framer-motion";
-import { MapPin, Bed, Bath, Ruler, ArrowLeft, Heart, X as XIcon, SlidersHorizontal, Sparkles, Sun, User, Mail, Phone } from "lucide-react";
+import { MapPin, Bed, Bath, Ruler, ArrowLeft, Heart, X as XIcon, RotateCcw, SlidersHorizontal, Sparkles, Sun, User, Mail, Phone } from "lucide-react";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -23,6 +23,16 @@ type OnboardingData = {
   dealBreakers: string[];
 };
 
+type ConsumerFeedPage = {
+  items: Array<{ id: number; listing: Property }>;
+  nextCursor: string | null;
+  // Set once the vibe filter matched nothing and was dropped for this deck.
+  dropVibe: boolean;
+};
+
+// Fetch the next page while this many cards are still left in the deck.
+const PREFETCH_REMAINING = 5;
+
 const LIFESTYLE_TAGS = [
   "Natural Light", "Remote Ready", "Chef Kitchen", "Fenced Yard", "HOA Free", "Smart Home", "Quiet Street"
 ];
@@ -418,6 +428,17 @@ function computeMatchScore(
   return Math.round((score / maxScore) * 100);
 }
 
+function toBuyerCriteria(filters: OnboardingData | null) {
+  if (!filters) return undefined;
+  const locations = [filters.location, filters.state !== "Anywhere" ? filters.state : ""].filter(Boolean);
+  return {
+    budgetMin: filters.budgetMin || null,
+    budgetMax: filters.budgetMax || null,
+    bedrooms: filters.bedrooms === "Studio" ? 0 : parseInt(filters.bedrooms.replace("+", ""), 10),
+    locations,
+  };
+}
+
 function MatchBadge({ score }: { score: number }) {
   const tier = score >= 90 ? "dream" : score >= 70 ? "gold" : "ghost";
   const colors = {
@@ -705,6 +726,7 @@ export default function Consumer() {
   const [showHeartBurst, setShowHeartBurst] = useState(false);
   const [swipedIds, setSwipedIds] = useState<Set<number>>(new Set());
   const [hasContact, setHasContact] = useState<boolean | null>(null);
+  const { toast } = useToast();
 
   const { data: contactData } = useQuery<{ contact: string | null }>({
     queryKey: ["/api/consumer/contact"],
@@ -716,9 +738,9 @@ export default function Consumer() {
     }
   }, [contactData]);
 
-  const buildQuery = () => {
-    if (!filters) return "/api/properties";
-    const params = new URLSearchParams();
+  const buildFeedParams = (dropVibe: boolean) => {
+    const params = new URLSearchParams({ pageSize: "20", include: "listing" });
+    if (!filters) return params;
     if (filters.state && filters.state !== "Anywhere") params.set("state", filters.state);
     if (filters.location) params.set("location", filters.location);
     if (filters.budgetMin) params.set("minPrice", filters.budgetMin.toString());
@@ -726,65 +748,82 @@ export default function Consumer() {
     if (filters.bedrooms && filters.bedrooms !== "Studio") {
       params.set("bedrooms", filters.bedrooms.replace("+", ""));
     }
-    if (filters.vibe && filters.vibe !== "all") params.set("vibe", filters.vibe);
-    params.set("status", "active");
-    return `/api/properties?${params.toString()}`;
+    if (!dropVibe && filters.vibe && filters.vibe !== "all") params.set("vibe", filters.vibe);
+    return params;
   };
 
-  const buildFallbackQuery = () => {
-    if (!filters) return "/api/properties";
-    const params = new URLSearchParams();
-    if (filters.state && filters.state !== "Anywhere") params.set("state", filters.state);
-    if (filters.location) params.set("location", filters.location);
-    if (filters.budgetMin) params.set("minPrice", filters.budgetMin.toString());
-    if (filters.budgetMax) params.set("maxPrice", filters.budgetMax.toString());
-    if (filters.bedrooms && filters.bedrooms !== "Studio") {
-      params.set("bedrooms", filters.bedrooms.replace("+", ""));
-    }
-    params.set("status", "active");
-    return `/api/properties?${params.toString()}`;
+  const fetchFeedPage = async (cursor: string | null, dropVibe: boolean): Promise<ConsumerFeedPage> => {
+    const params = buildFeedParams(dropVibe);
+    if (cursor) params.set("cursor", cursor);
+    const res = await fetch(`/api/listings/feed?${params}`, { credentials: "include" });
+    if (!res.ok) throw new Error("Failed to fetch");
+    return { ...(await res.json()), dropVibe };
   };
 
-  const { data: filteredProperties, isLoading } = useQuery<Property[]>({
-    queryKey: ["/api/properties", filters],
-    queryFn: async () => {
-      const res = await fetch(buildQuery());
-      if (!res.ok) throw new Error("Failed to fetch");
-      const data = await res.json();
-      if (data.length > 0) return data;
-      const fallbackRes = await fetch(buildFallbackQuery());
-      if (!fallbackRes.ok) throw new Error("Failed to fetch");
-      return fallbackRes.json();
+  const { data: feedPages, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: ["/api/listings/feed", "consumer", filters],
+    queryFn: async ({ pageParam }) => {
+      const page = await fetchFeedPage(pageParam.cursor, pageParam.dropVibe);
+      // Nothing matches the chosen vibe: fall back to the same filters without it.
+      if (!pageParam.cursor && !pageParam.dropVibe && page.items.length === 0 && filters?.vibe && filters.vibe !== "all") {
+        return fetchFeedPage(null, true);
+      }
+      return page;
     },
+    initialPageParam: { cursor: null as string | null, dropVibe: false },
+    getNextPageParam: (lastPage) => (lastPage.nextCursor ? { cursor: lastPage.nextCursor, dropVibe: lastPage.dropVibe } : undefined),
     enabled: filters !== null,
   });
 
-  const allProperties = filteredProperties;
-
-  const properties = (allProperties?.filter(p => {
+  // Pages arrive in the server's order, ranked by the buyer profile once it
+  // has swipes to go on.
+  const properties = (feedPages?.pages.flatMap((page) => page.items.map((item) => item.listing)) ?? []).filter(p => {
     if (filters?.dealBreakers?.length) {
       if (filters.dealBreakers.some(tag => p.tags?.includes(tag))) return false;
     }
     return !swipedIds.has(p.id);
-  }) ?? []).sort((a, b) => {
-    if (filters?.vibe && filters.vibe !== "all") {
-      const aMatch = a.vibe === filters.vibe ? 0 : 1;
-      const bMatch = b.vibe === filters.vibe ? 0 : 1;
-      return aMatch - bMatch;
-    }
-    return Math.random() - 0.5;
   });
 
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && properties.length <= PREFETCH_REMAINING) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, properties.length, fetchNextPage]);
+
   const swipeMutation = useMutation({
     mutationFn: async (payload: { propertyId: number; direction: "left" | "right"; matchScore: number; matchedTags: string[] }) => {
       const res = await apiRequest("POST", "/api/swipe", {
         ...payload,
         userName: "Anonymous Buyer",
+        criteria: toBuyerCriteria(filters),
       });
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notifications/count"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/buyer/recommendations"] });
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/buyer/swipe/undo", {});
+      return (await res.json()) as { listingId: number };
+    },
+    onSuccess: ({ listingId }) => {
+      setSwipedIds(prev => {
+        const next = new Set(prev);
+        next.delete(listingId);
+        return next;
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/count"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/buyer/recommendations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/buyer/saved-homes"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Can't undo", description: err.message, variant: "destructive" });
     },
   });
 
@@ -861,7 +900,7 @@ export default function Consumer() {
       </header>
 
       <div className="flex-1 relative overflow-hidden">
-        {properties.length === 0 ? (
+        {properties.length === 0 && !hasNextPage ? (
           <div className="absolute inset-0 flex items-center justify-center p-6">
             <div className="text-center space-y-3 max-w-xs">
               <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mx-auto">
@@ -902,6 +941,16 @@ export default function Consumer() {
           >
             <XIcon className="w-6 h-6" />
           </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="w-10 h-10 rounded-full"
+            onClick={() => undoMutation.mutate()}
+            disabled={swipedIds.size === 0 || undoMutation.isPending}
+            data-testid="button-swipe-undo"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </Button>
           <Button
             variant="outline"
             size="icon"
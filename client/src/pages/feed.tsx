@@ -1,8 +1,9 @@
 import { useEffect, useMemo, useState } from "react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { SimilarHomesDeck } from "@/components/similar-homes-deck";
 
 type FeedItem = {
   id: number;
@@ -14,14 +15,26 @@ type FeedItem = {
   heroPhotoUrl: string | null;
   topVibe: string;
   vibeTags: string[];
+  reason?: "exploit" | "explore" | "diversity";
+  matchScore?: number;
+  copy?: { vibe: string; headline: string; description: string };
+};
+
+const REASON_LABELS: Record<NonNullable<FeedItem["reason"]>, string> = {
+  exploit: "Picked for you",
+  explore: "Something different",
+  diversity: "Mixing it up",
 };
 
 type FeedResponse = {
-  page: number;
   pageSize: number;
   items: FeedItem[];
+  nextCursor: string | null;
 };
 
+// Fetch the next page while this many cards are still left in the deck.
+const PREFETCH_REMAINING = 5;
+
 type SwipeResult = {
   matchScore: number;
   buyerTopVibes: Array<{ vibe: string; score: number }>;
@@ -35,18 +48,17 @@ export default function FeedPage() {
   const [index, setIndex] = useState(0);
   const [shownAt, setShownAt] = useState<number>(Date.now());
   const [lastSwipe, setLastSwipe] = useState<SwipeResult | null>(null);
+  const [similarOpen, setSimilarOpen] = useState(false);
 
   useEffect(() => {
+    // Always round-trip so the server binds this buyer to the session the
+    // consumer deck uses.
     const existing = localStorage.getItem("buyerId");
-    if (existing) {
-      setBuyerId(existing);
-      return;
-    }
     fetch("/api/buyer/init", {
       method: "POST",
       credentials: "include",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({}),
+      body: JSON.stringify(existing ? { buyerId: existing } : {}),
     })
       .then((r) => r.json())
       .then((data) => {
@@ -55,18 +67,29 @@ export default function FeedPage() {
       });
   }, []);
 
-  const { data } = useQuery<FeedResponse>({
-    queryKey: ["/api/listings/feed"],
-    queryFn: async () => {
-      const res = await fetch("/api/listings/feed?page=1&pageSize=50", { credentials: "include" });
+  const { data, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: ["/api/listings/feed", buyerId],
+    queryFn: async ({ pageParam }): Promise<FeedResponse> => {
+      const params = new URLSearchParams({ pageSize: "20", buyerId: buyerId || "" });
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await fetch(`/api/listings/feed?${params}`, { credentials: "include" });
       if (!res.ok) throw new Error(await res.text());
       return res.json();
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!buyerId,
   });
 
-  const items = data?.items || [];
+  const items = useMemo(() => data?.pages.flatMap((page) => page.items) ?? [], [data]);
   const current = items[index] || null;
 
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && items.length - index <= PREFETCH_REMAINING) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, items.length, index, fetchNextPage]);
+
   const swipeMutation = useMutation({
     mutationFn: async (action: "like" | "nope" | "save" | "skip") => {
       if (!buyerId || !current) throw new Error("Missing buyer or listing");
@@ -92,7 +115,25 @@ export default function FeedPage() {
     },
   });
 
-  const done = useMemo(() => index >= items.length, [index, items.length]);
+  const undoMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/buyer/swipe/undo", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ buyerId }),
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    onSuccess: () => {
+      setLastSwipe(null);
+      setIndex((prev) => Math.max(0, prev - 1));
+      setShownAt(Date.now());
+    },
+  });
+
+  const done = useMemo(() => !!data && !hasNextPage && index >= items.length, [data, hasNextPage, index, items.length]);
 
   return (
     <div className="p-6 max-w-xl mx-auto space-y-4">
@@ -112,6 +153,12 @@ export default function FeedPage() {
               <h2 className="font-semibold">{current.address}</h2>
               <Badge>{current.topVibe}</Badge>
             </div>
+            {current.copy && (
+              <div className="space-y-1">
+                <p className="font-medium">{current.copy.headline}</p>
+                <p className="text-sm text-muted-foreground line-clamp-3">{current.copy.description}</p>
+              </div>
+            )}
             <p className="text-sm text-muted-foreground">
               ${Number(current.price || 0).toLocaleString()} · {current.beds} bd · {current.baths} ba · {current.sqft} sqft
             </p>
@@ -120,21 +167,37 @@ export default function FeedPage() {
                 <Badge variant="outline" key={tag}>{tag}</Badge>
               ))}
             </div>
+            {current.reason && (
+              <p className="text-xs text-muted-foreground">{REASON_LABELS[current.reason]}</p>
+            )}
             <div className="grid grid-cols-2 gap-2 pt-2">
               <Button onClick={() => swipeMutation.mutate("like")} disabled={swipeMutation.isPending}>Like</Button>
               <Button variant="secondary" onClick={() => swipeMutation.mutate("nope")} disabled={swipeMutation.isPending}>Nope</Button>
               <Button onClick={() => swipeMutation.mutate("save")} disabled={swipeMutation.isPending}>Save</Button>
               <Button variant="outline" onClick={() => swipeMutation.mutate("skip")} disabled={swipeMutation.isPending}>Skip</Button>
             </div>
+            <Button variant="ghost" className="w-full" onClick={() => setSimilarOpen(true)}>More like this</Button>
           </div>
         </Card>
       )}
 
+      {current && <SimilarHomesDeck listingId={current.id} open={similarOpen} onOpenChange={setSimilarOpen} />}
+
       {lastSwipe && (
         <Card className="p-3">
           <p className="text-sm">
             Match Score: <strong>{lastSwipe.matchScore}</strong>{lastSwipe.hotLead ? " (Hot lead)" : ""}
           </p>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mt-2"
+            onClick={() => undoMutation.mutate()}
+            disabled={index === 0 || undoMutation.isPending}
+          >
+            Undo
+          </Button>
+          {undoMutation.isError && <p className="text-xs text-muted-foreground">That swipe can no longer be undone.</p>}
         </Card>
       )}
     </div>
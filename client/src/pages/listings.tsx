@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Pencil, Trash2, MapPin, Bed, Bath, Ruler, X, Building2, Lock, Crown, ExternalLink, Download, Loader2, CheckCircle2, AlertCircle, Globe } from "lucide-react";
+import { Plus, Pencil, Trash2, Pin, PenLine, MapPin, Bed, Bath, Ruler, X, Building2, Lock, Crown, ExternalLink, Download, Loader2, CheckCircle2, AlertCircle, Globe } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -17,6 +17,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Property, SyncRequest } from "@shared/schema";
+import { VibeOverrideDialog } from "@/components/vibe-override-dialog";
+import { ListingCopyDialog } from "@/components/listing-copy-dialog";
 
 const propertyFormSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters"),
@@ -65,10 +67,12 @@ function LifestyleSelector({ value, onChange }: { value: string[], onChange: (va
   );
 }
 
-function PropertyCard({ property, onEdit, onDelete, selectionMode = false, selected = false, onToggleSelect }: {
+function PropertyCard({ property, onEdit, onDelete, onPinVibe, onWriteCopy, selectionMode = false, selected = false, onToggleSelect }: {
   property: Property;
   onEdit: (p: Property) => void;
   onDelete: (p: Property) => void;
+  onPinVibe: (p: Property) => void;
+  onWriteCopy: (p: Property) => void;
   selectionMode?: boolean;
   selected?: boolean;
   onToggleSelect?: (id: number) => void;
@@ -111,6 +115,15 @@ function PropertyCard({ property, onEdit, onDelete, selectionMode = false, selec
           <MapPin className="w-3.5 h-3.5 shrink-0" />
           <span className="truncate">{property.location}</span>
         </div>
+        <div className="flex items-center gap-2 text-sm">
+          <Badge variant="outline" data-testid={`badge-vibe-${property.id}`}>{property.vibeTag}</Badge>
+          {property.vibeOverride && (
+            <Badge variant="secondary" title={property.vibeOverride.reason} data-testid={`badge-vibe-pinned-${property.id}`}>
+              <Pin className="w-3 h-3 mr-1" />
+              Pinned
+            </Badge>
+          )}
+        </div>
 
         <div className="flex items-center gap-4 text-sm text-muted-foreground">
           <div className="flex items-center gap-1">
@@ -136,6 +149,14 @@ function PropertyCard({ property, onEdit, onDelete, selectionMode = false, selec
             <Trash2 className="w-3.5 h-3.5 mr-1.5" />
             Delete
           </Button>
+          <Button variant="outline" size="sm" onClick={() => onPinVibe(property)} data-testid={`button-pin-vibe-${property.id}`}>
+            <Pin className="w-3.5 h-3.5 mr-1.5" />
+            Pin vibe
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onWriteCopy(property)} data-testid={`button-write-copy-${property.id}`}>
+            <PenLine className="w-3.5 h-3.5 mr-1.5" />
+            Copy
+          </Button>
         </div>
       </div>
     </Card>
@@ -146,6 +167,8 @@ export default function Listings() {
   const [showForm, setShowForm] = useState(false);
   const [editingProperty, setEditingProperty] = useState<Property | null>(null);
   const [deletingProperty, setDeletingProperty] = useState<Property | null>(null);
+  const [pinningProperty, setPinningProperty] = useState<Property | null>(null);
+  const [copyProperty, setCopyProperty] = useState<Property | null>(null);
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [importUrl, setImportUrl] = useState("");
@@ -761,6 +784,8 @@ export default function Listings() {
               property={p}
               onEdit={handleEdit}
               onDelete={(p) => setDeletingProperty(p)}
+              onPinVibe={(p) => setPinningProperty(p)}
+              onWriteCopy={(p) => setCopyProperty(p)}
               selectionMode={selectionMode}
               selected={selectedPropertyIds.includes(p.id)}
               onToggleSelect={toggleSelectProperty}
@@ -783,6 +808,9 @@ export default function Listings() {
         </DialogContent>
       </Dialog>
 
+      <VibeOverrideDialog property={pinningProperty} onOpenChange={(open) => { if (!open) setPinningProperty(null); }} />
+      <ListingCopyDialog property={copyProperty} onOpenChange={(open) => { if (!open) setCopyProperty(null); }} />
+
       <Dialog open={deletingProperty !== null} onOpenChange={(open) => { if (!open) setDeletingProperty(null); }}>
         <DialogContent className="backdrop-blur-xl bg-card border-card-border">
           <DialogHeader>
@@ -1,9 +1,14 @@
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { motion } from "framer-motion";
-import { Heart, TrendingUp, Sparkles, ArrowLeft, MapPin, Bed, Bath } from "lucide-react";
+import { Heart, TrendingUp, Sparkles, ArrowLeft, MapPin, Bed, Bath, Users, ChevronUp, ChevronDown, X } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { BuyerClaimCard } from "@/components/buyer-claim-card";
+import { TasteSharePanel } from "@/components/taste-share-panel";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import type { Property } from "@shared/schema";
 
@@ -17,10 +22,27 @@ type TasteStats = {
   vibePercentages: VibeEntry[];
   topVibe: string | null;
   topPicks: Property[];
-  savedHomes: Property[];
   totalSwipes: number;
 };
 
+type SavedHomeItem = {
+  listingId: number;
+  note: string | null;
+  priority: number;
+  savedAt: string;
+  listing: Property;
+};
+
+type SavedHomesResponse = {
+  buyerId: string | null;
+  items: SavedHomeItem[];
+};
+
+type Recommendations = {
+  buyerId: string;
+  items: Array<Property & { score: number; supporters: number }>;
+};
+
 const VIBE_COLORS: Record<string, string> = {
   Monarch: "from-amber-500 to-yellow-600",
   Purist: "from-slate-400 to-zinc-500",
@@ -90,6 +112,66 @@ function PropertyCard({ property }: { property: Property }) {
   );
 }
 
+function SavedHomeCard({
+  item,
+  isFirst,
+  isLast,
+  onMove,
+  onRemove,
+}: {
+  item: SavedHomeItem;
+  isFirst: boolean;
+  isLast: boolean;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+}) {
+  const [note, setNote] = useState(item.note ?? "");
+
+  useEffect(() => {
+    setNote(item.note ?? "");
+  }, [item.note]);
+
+  const noteMutation = useMutation({
+    mutationFn: async (value: string) => {
+      await apiRequest("PATCH", `/api/buyer/saved-homes/${item.listingId}`, { note: value.trim() || null });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/buyer/saved-homes"] });
+    },
+  });
+
+  return (
+    <div className="space-y-2" data-testid={`saved-home-${item.listingId}`}>
+      <div className="relative">
+        <PropertyCard property={item.listing} />
+        <div className="absolute top-2 right-2 flex gap-1">
+          <Button size="icon" variant="secondary" className="h-7 w-7" disabled={isFirst} onClick={() => onMove(-1)} data-testid={`button-saved-up-${item.listingId}`}>
+            <ChevronUp className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="secondary" className="h-7 w-7" disabled={isLast} onClick={() => onMove(1)} data-testid={`button-saved-down-${item.listingId}`}>
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+          <Button size="icon" variant="secondary" className="h-7 w-7" onClick={onRemove} data-testid={`button-saved-remove-${item.listingId}`}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <Textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={() => {
+          if (note.trim() !== (item.note ?? "")) noteMutation.mutate(note);
+        }}
+        placeholder="Private note"
+        maxLength={1000}
+        rows={2}
+        className="text-xs"
+        data-testid={`input-saved-note-${item.listingId}`}
+      />
+    </div>
+  );
+}
+
 export default function MyTaste() {
   const [, setLocation] = useLocation();
 
@@ -97,6 +179,45 @@ export default function MyTaste() {
     queryKey: ["/api/user/stats"],
   });
 
+  const { data: recommendations } = useQuery<Recommendations>({
+    queryKey: ["/api/buyer/recommendations"],
+  });
+
+  const { data: saved } = useQuery<SavedHomesResponse>({
+    queryKey: ["/api/buyer/saved-homes"],
+  });
+  const savedHomes = saved?.items ?? [];
+
+  const reorderMutation = useMutation({
+    mutationFn: async (listingIds: number[]) => {
+      const res = await apiRequest("PUT", "/api/buyer/saved-homes/order", { listingIds });
+      return (await res.json()) as SavedHomesResponse;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/buyer/saved-homes"], data);
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (listingId: number) => {
+      const res = await apiRequest("DELETE", `/api/buyer/saved-homes/${listingId}`);
+      return (await res.json()) as SavedHomesResponse;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/buyer/saved-homes"], data);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/buyer/recommendations"] });
+    },
+  });
+
+  const moveSavedHome = (index: number, direction: -1 | 1) => {
+    const ids = savedHomes.map((item) => item.listingId);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
   if (isLoading) {
     return (
       <div className="fixed inset-0 bg-background flex items-center justify-center">
@@ -184,22 +305,47 @@ export default function MyTaste() {
                 </section>
               )}
 
+              {recommendations && recommendations.items.length > 0 && (
+                <section className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Users className="w-5 h-5 text-primary" />
+                    <h2 className="text-lg font-bold" data-testid="text-also-saved-title">Buyers Like You Also Saved</h2>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    {recommendations.items.map((property) => (
+                      <PropertyCard key={property.id} property={property} />
+                    ))}
+                  </div>
+                </section>
+              )}
+
               <section className="space-y-4">
                 <div className="flex items-center gap-2">
                   <Heart className="w-5 h-5 text-red-500" />
                   <h2 className="text-lg font-bold" data-testid="text-saved-homes-title">Saved Homes</h2>
-                  <Badge variant="secondary" className="text-xs">{stats?.savedHomes.length || 0}</Badge>
+                  <Badge variant="secondary" className="text-xs">{savedHomes.length}</Badge>
                 </div>
-                {stats && stats.savedHomes.length > 0 ? (
+                {savedHomes.length > 0 ? (
                   <div className="grid grid-cols-2 gap-3">
-                    {stats.savedHomes.map((property) => (
-                      <PropertyCard key={property.id} property={property} />
+                    {savedHomes.map((item, index) => (
+                      <SavedHomeCard
+                        key={item.listingId}
+                        item={item}
+                        isFirst={index === 0}
+                        isLast={index === savedHomes.length - 1}
+                        onMove={(direction) => moveSavedHome(index, direction)}
+                        onRemove={() => removeMutation.mutate(item.listingId)}
+                      />
                     ))}
                   </div>
                 ) : (
                   <p className="text-sm text-muted-foreground">No saved homes yet. Swipe right to save!</p>
                 )}
               </section>
+
+              <TasteSharePanel />
+
+              <BuyerClaimCard />
             </>
           )}
         </div>
@@ -1,7 +1,10 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useRoute } from "wouter";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { SimilarHomesDeck } from "@/components/similar-homes-deck";
 
 type PortfolioListing = {
   id: number;
@@ -16,6 +19,7 @@ type PortfolioListing = {
 export default function PortfolioPage() {
   const [, params] = useRoute("/portfolio/:agentId");
   const agentId = params?.agentId || "";
+  const [similarTo, setSimilarTo] = useState<number | null>(null);
 
   const { data = [], isLoading, error } = useQuery<PortfolioListing[]>({
     queryKey: ["/api/portfolio", agentId],
@@ -50,10 +54,19 @@ export default function PortfolioPage() {
                   <Badge key={v.vibe} variant="outline" className="text-xs">{v.vibe}</Badge>
                 ))}
               </div>
+              <Button variant="outline" size="sm" onClick={() => setSimilarTo(item.id)}>More like this</Button>
             </div>
           </Card>
         ))}
       </div>
+      {similarTo !== null && (
+        <SimilarHomesDeck
+          listingId={similarTo}
+          scope="agent"
+          open
+          onOpenChange={(open) => !open && setSimilarTo(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,71 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
+import { Sparkles } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+export type PublicTasteShare = {
+  shareId: string;
+  headline: string;
+  topVibes: Array<{ vibe: string; percentage: number; hook: string }>;
+  swipeCount: number;
+  createdAt: string;
+  url: string;
+  imageUrl: string;
+};
+
+export default function TasteSharePage() {
+  const [, params] = useRoute("/taste/:shareId");
+  const [, setLocation] = useLocation();
+  const shareId = params?.shareId || "";
+
+  const { data, isLoading, error } = useQuery<PublicTasteShare>({
+    queryKey: ["/api/taste", shareId],
+    enabled: !!shareId,
+    retry: false,
+  });
+
+  return (
+    <div className="fixed inset-0 bg-background overflow-y-auto font-serif">
+      <div className="max-w-lg mx-auto p-6 space-y-6">
+        <h1 className="font-bold text-2xl tracking-tighter italic text-primary text-center">Taste</h1>
+
+        {isLoading && <p className="text-center text-muted-foreground text-sm">Loading taste card...</p>}
+        {error && (
+          <p className="text-center text-muted-foreground text-sm" data-testid="text-share-unavailable">
+            This taste card is no longer available.
+          </p>
+        )}
+
+        {data && (
+          <Card className="p-6 space-y-5" data-testid="card-taste-share">
+            <div className="flex items-center gap-2">
+              <Sparkles className="w-5 h-5 text-primary shrink-0" />
+              <h2 className="text-xl font-bold" data-testid="text-share-headline">{data.headline}</h2>
+            </div>
+            {data.topVibes.map((entry) => (
+              <div key={entry.vibe} className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">{entry.vibe}</span>
+                  <span className="font-bold text-primary">{entry.percentage}%</span>
+                </div>
+                <div className="h-2.5 rounded-full bg-muted overflow-hidden">
+                  <div className="h-full bg-primary rounded-full" style={{ width: `${Math.min(entry.percentage, 100)}%` }} />
+                </div>
+                {entry.hook && <p className="text-xs italic text-muted-foreground">{entry.hook}</p>}
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">Based on {data.swipeCount} swipes</p>
+          </Card>
+        )}
+
+        <div className="text-center space-y-2">
+          <p className="text-sm text-muted-foreground">What's your home vibe?</p>
+          <Button onClick={() => setLocation("/")} data-testid="button-find-your-taste">
+            Find your taste
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+ALTER TABLE "leads" ADD COLUMN "match_breakdown" json;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "vibe_definitions" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "vibe_definitions_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"organization_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"keywords" json DEFAULT '[]'::json NOT NULL,
+	"visual_cues" json DEFAULT '[]'::json NOT NULL,
+	"psychology" json DEFAULT '[]'::json NOT NULL,
+	"copy_hook" text DEFAULT '' NOT NULL,
+	"forbidden_changes" json DEFAULT '[]'::json NOT NULL,
+	"staging_do" json DEFAULT '[]'::json NOT NULL,
+	"staging_dont" json DEFAULT '[]'::json NOT NULL,
+	"prompt_seeds" json DEFAULT '[]'::json NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "vibe_definitions_org_name_unique" UNIQUE("organization_id","name")
+);
@@ -0,0 +1,19 @@
+-- Fold legacy session swipes into the buyer event stream. Each session becomes
+-- a buyer with id 'legacy-<session_id>' (see server/buyerProfiles.ts); right
+-- swipes become likes and left swipes become nopes. Re-running is a no-op.
+INSERT INTO "buyers" ("id", "created_at")
+SELECT 'legacy-' || "session_id", MIN("created_at")
+FROM "swipes"
+GROUP BY "session_id"
+ON CONFLICT ("id") DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "swipe_events" ("id", "buyer_id", "listing_id", "action", "dwell_ms", "created_at")
+SELECT
+  'legacy-swipe-' || "id",
+  'legacy-' || "session_id",
+  "property_id",
+  CASE WHEN "direction" = 'right' THEN 'like' ELSE 'nope' END,
+  "dwell_ms",
+  "created_at"
+FROM "swipes"
+ON CONFLICT ("id") DO NOTHING;
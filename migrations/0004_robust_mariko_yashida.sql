@@ -0,0 +1,12 @@
+CREATE TABLE "buyer_profile_snapshots" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "buyer_profile_snapshots_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"buyer_id" text NOT NULL,
+	"swipe_count" integer NOT NULL,
+	"vector" json NOT NULL,
+	"top_vibes" json NOT NULL,
+	"confidence" real DEFAULT 0 NOT NULL,
+	"trigger" text NOT NULL,
+	"drift_from" text,
+	"drift_to" text,
+	"created_at" timestamp DEFAULT now()
+);
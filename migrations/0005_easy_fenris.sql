@@ -0,0 +1,14 @@
+CREATE TABLE "household_members" (
+	"buyer_id" text PRIMARY KEY NOT NULL,
+	"household_id" text NOT NULL,
+	"joined_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "households" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "leads" ADD COLUMN "household_id" text;--> statement-breakpoint
+ALTER TABLE "leads" ADD COLUMN "member_avoid_lists" json;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "properties" ADD COLUMN "vibe_photos" json;
\ No newline at end of file
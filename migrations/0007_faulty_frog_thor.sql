@@ -0,0 +1,36 @@
+CREATE TABLE "listing_photos" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "listing_photos_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"property_id" integer NOT NULL,
+	"url" text NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"room_type" text DEFAULT 'other' NOT NULL,
+	"is_empty" boolean DEFAULT false NOT NULL,
+	"vibe_vector" json,
+	"top_vibe" text,
+	"confidence" real,
+	"quality_score" real,
+	"width" integer,
+	"height" integer,
+	"classified_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "listing_photos_property_url_unique" UNIQUE("property_id","url")
+);
+--> statement-breakpoint
+INSERT INTO "listing_photos" ("property_id", "url", "position")
+SELECT p."id", img."url", img."ord" - 1
+FROM "properties" p
+CROSS JOIN LATERAL json_array_elements_text(p."images") WITH ORDINALITY AS img("url", "ord")
+ON CONFLICT DO NOTHING;
+--> statement-breakpoint
+UPDATE "listing_photos" lp
+SET "vibe_vector" = vp."value"->'vibeVector',
+    "top_vibe" = vp."value"->>'topVibe',
+    "confidence" = (vp."value"->>'confidence')::real,
+    "classified_at" = now()
+FROM "properties" p
+CROSS JOIN LATERAL json_array_elements(
+  CASE WHEN json_typeof(p."vibe_photos") = 'array' THEN p."vibe_photos" ELSE '[]'::json END
+) AS vp("value")
+WHERE lp."property_id" = p."id" AND lp."url" = vp."value"->>'url';
+--> statement-breakpoint
+ALTER TABLE "properties" DROP COLUMN "vibe_photos";
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE "vibe_backfill_diffs" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "vibe_backfill_diffs_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"job_id" text NOT NULL,
+	"property_id" integer NOT NULL,
+	"from_version" text,
+	"to_version" text NOT NULL,
+	"before_top" json,
+	"after_top" json,
+	"before_vector" json,
+	"after_vector" json,
+	"shift" real DEFAULT 0 NOT NULL,
+	"top_vibe_changed" boolean DEFAULT false NOT NULL,
+	"leads_updated" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "vibe_backfill_jobs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"target_version" text NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"total" integer DEFAULT 0 NOT NULL,
+	"processed" integer DEFAULT 0 NOT NULL,
+	"succeeded" integer DEFAULT 0 NOT NULL,
+	"failed_count" integer DEFAULT 0 NOT NULL,
+	"moved" integer DEFAULT 0 NOT NULL,
+	"leads_updated" integer DEFAULT 0 NOT NULL,
+	"cursor" integer DEFAULT 0 NOT NULL,
+	"started_by" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
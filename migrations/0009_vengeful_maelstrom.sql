@@ -0,0 +1,15 @@
+CREATE TABLE "vibe_override_examples" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "vibe_override_examples_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"property_id" integer NOT NULL,
+	"agent_id" text,
+	"source" text DEFAULT 'agent' NOT NULL,
+	"pinned_vibes" json DEFAULT '[]'::json NOT NULL,
+	"reason" text,
+	"algorithm_version" text,
+	"predicted_top" text,
+	"predicted_vector" json,
+	"agrees" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "properties" ADD COLUMN "vibe_override" json;
\ No newline at end of file
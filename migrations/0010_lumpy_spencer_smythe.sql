@@ -0,0 +1,13 @@
+CREATE TABLE "listing_copy_variants" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "listing_copy_variants_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"property_id" integer NOT NULL,
+	"vibe" text NOT NULL,
+	"headline" text NOT NULL,
+	"description" text NOT NULL,
+	"social_caption" text NOT NULL,
+	"provider" text DEFAULT 'template' NOT NULL,
+	"agent_id" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "listing_copy_variants_property_vibe_unique" UNIQUE("property_id","vibe")
+);
@@ -0,0 +1 @@
+CREATE INDEX "swipe_events_buyer_listing_idx" ON "swipe_events" USING btree ("buyer_id","listing_id");
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "saved_homes" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "saved_homes_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"buyer_id" text NOT NULL,
+	"listing_id" integer NOT NULL,
+	"note" text,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "saved_homes_buyer_listing_unique" UNIQUE("buyer_id","listing_id")
+);
+--> statement-breakpoint
+INSERT INTO "saved_homes" ("buyer_id", "listing_id", "priority", "created_at", "updated_at")
+SELECT "buyer_id", "listing_id",
+       (row_number() OVER (PARTITION BY "buyer_id" ORDER BY min("created_at")) - 1)::int,
+       min("created_at"), min("created_at")
+FROM "swipe_events"
+WHERE "action" IN ('like', 'save')
+GROUP BY "buyer_id", "listing_id"
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,3 @@
+ALTER TABLE "leads" ADD COLUMN "swipe_event_id" text;--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "swipe_event_id" text;--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "voided_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,10 @@
+ALTER TABLE "buyers" ADD COLUMN "name" text;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "email" text;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "phone" text;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "email_verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "phone_verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "contact_consent_at" timestamp;--> statement-breakpoint
+ALTER TABLE "leads" ADD COLUMN "email" text;--> statement-breakpoint
+ALTER TABLE "leads" ADD COLUMN "contact_consent_at" timestamp;--> statement-breakpoint
+ALTER TABLE "verification_codes" ADD COLUMN "channel" text DEFAULT 'email' NOT NULL;--> statement-breakpoint
+ALTER TABLE "verification_codes" ADD COLUMN "buyer_id" text;
\ No newline at end of file
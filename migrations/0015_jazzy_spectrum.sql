@@ -0,0 +1,10 @@
+CREATE TABLE "taste_shares" (
+	"id" text PRIMARY KEY NOT NULL,
+	"buyer_id" text NOT NULL,
+	"top_vibes" json NOT NULL,
+	"swipe_count" integer DEFAULT 0 NOT NULL,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "taste_shares_buyer_idx" ON "taste_shares" USING btree ("buyer_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "household_invites" (
+	"code" text PRIMARY KEY NOT NULL,
+	"household_id" text NOT NULL,
+	"created_by" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"accepted_by" text,
+	"accepted_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
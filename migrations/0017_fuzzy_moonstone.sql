@@ -0,0 +1 @@
+ALTER TABLE "vibe_backfill_jobs" ADD COLUMN "failed_property_ids" json DEFAULT '[]'::json NOT NULL;
\ No newline at end of file
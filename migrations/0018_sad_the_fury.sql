@@ -0,0 +1,8 @@
+CREATE TABLE "listing_idf_snapshots" (
+	"id" text PRIMARY KEY NOT NULL,
+	"algorithm_version" text NOT NULL,
+	"registry_key" text NOT NULL,
+	"idf" json NOT NULL,
+	"document_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
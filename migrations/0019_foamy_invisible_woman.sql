@@ -0,0 +1,5 @@
+DELETE FROM "buyer_profile_snapshots" AS s USING "buyer_profile_snapshots" AS kept
+WHERE s."trigger" = 'milestone' AND kept."trigger" = 'milestone'
+  AND s."buyer_id" = kept."buyer_id" AND s."swipe_count" = kept."swipe_count"
+  AND s."id" > kept."id";--> statement-breakpoint
+CREATE UNIQUE INDEX "buyer_profile_snapshots_milestone_idx" ON "buyer_profile_snapshots" USING btree ("buyer_id","swipe_count") WHERE "buyer_profile_snapshots"."trigger" = 'milestone';
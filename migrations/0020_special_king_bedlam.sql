@@ -0,0 +1 @@
+ALTER TABLE "buyer_profile_snapshots" ADD COLUMN "swipe_event_id" text;
\ No newline at end of file
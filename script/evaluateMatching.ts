@@ -0,0 +1,120 @@
+import { asc, gte } from "drizzle-orm";
+import { swipeEvents } from "@shared/schema";
+import type { BuyerSwipeAction } from "@shared/tasteAlgorithm";
+import { db, pool } from "../server/db";
+import { storage } from "../server/storage";
+import { getListingVector, resolveBuyerVectorOptions } from "../server/buyerProfiles";
+import {
+  DEFAULT_EVALUATION_OPTIONS,
+  createScorers,
+  evaluateScorer,
+  type EvalEvent,
+  type EvalListing,
+  type EvaluationOptions,
+} from "../server/matchEvaluation";
+import { getAvoidancePenaltyWeight, getLeadMinConfidence, getMatchWeights } from "../server/tasteConfig";
+
+// Usage: tsx script/evaluateMatching.ts [--k=5] [--horizon=10] [--min-history=3]
+//   [--lead-threshold=85] [--since=2026-01-01] [--scorers=cosine,decayed,composite] [--json]
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+    if (match) args[match[1]] = match[2] ?? "true";
+  }
+  return args;
+}
+
+function readIntArg(args: Record<string, string>, name: string, fallback: number): number {
+  if (args[name] == null) return fallback;
+  const parsed = parseInt(args[name], 10);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? "n/a" : value.toFixed(3);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const options: EvaluationOptions = {
+    k: readIntArg(args, "k", DEFAULT_EVALUATION_OPTIONS.k),
+    horizon: readIntArg(args, "horizon", DEFAULT_EVALUATION_OPTIONS.horizon),
+    minHistory: readIntArg(args, "min-history", DEFAULT_EVALUATION_OPTIONS.minHistory),
+    leadThreshold: readIntArg(args, "lead-threshold", DEFAULT_EVALUATION_OPTIONS.leadThreshold),
+    leadMinConfidence: getLeadMinConfidence(),
+  };
+  const since = args.since ? new Date(args.since) : null;
+  if (since && Number.isNaN(since.getTime())) {
+    throw new Error("--since must be a valid date");
+  }
+
+  // Same options the swipe route scores with, including the population prior.
+  const scorers = createScorers({
+    vectorOptions: await resolveBuyerVectorOptions(),
+    avoidancePenaltyWeight: getAvoidancePenaltyWeight(),
+    matchWeights: getMatchWeights(),
+  });
+  const requested = args.scorers ? args.scorers.split(",").map((s) => s.trim()) : Object.keys(scorers);
+  const unknown = requested.filter((name) => !scorers[name]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown scorer(s): ${unknown.join(", ")}. Available: ${Object.keys(scorers).join(", ")}`);
+  }
+
+  const rows = await db
+    .select()
+    .from(swipeEvents)
+    .where(since ? gte(swipeEvents.createdAt, since) : undefined)
+    .orderBy(asc(swipeEvents.createdAt));
+  const events: EvalEvent[] = rows
+    .filter((row) => row.createdAt)
+    .map((row) => ({
+      buyerId: row.buyerId,
+      listingId: row.listingId,
+      action: row.action as BuyerSwipeAction,
+      dwellMs: row.dwellMs,
+      createdAt: row.createdAt!,
+    }));
+
+  const properties = await storage.getPropertiesByIds(Array.from(new Set(events.map((e) => e.listingId))));
+  const listings = new Map<number, EvalListing>(
+    properties.map((p) => [
+      p.id,
+      { id: p.id, price: p.price, bedrooms: p.bedrooms, sqft: p.sqft, location: p.location, vector: getListingVector(p) },
+    ])
+  );
+
+  const reports = requested.map((name) => evaluateScorer(name, scorers[name], events, listings, options));
+
+  if (args.json) {
+    console.log(JSON.stringify({ options, events: events.length, reports }, null, 2));
+    return;
+  }
+
+  console.log(
+    `Replayed ${events.length} swipe events (k=${options.k}, horizon=${options.horizon}, min history=${options.minHistory}, lead threshold=${options.leadThreshold}, lead min confidence=${options.leadMinConfidence})`
+  );
+  console.table(
+    reports.map((r) => ({
+      scorer: r.scorer,
+      buyers: r.buyers,
+      windows: r.windows,
+      [`precision@${options.k}`]: formatMetric(r.precisionAtK),
+      auc: formatMetric(r.auc),
+      leads: r.predictedLeads,
+      "lead precision": formatMetric(r.leadPrecision),
+      "save recall": formatMetric(r.saveRecall),
+    }))
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("[EvaluateMatching]", error?.message ?? error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import {
+  LISTING_VIBE_ALGORITHM_VERSION,
+  blendListingVibeVector,
+  buildListingTermIdf,
+  computeListingVibeVector,
+} from "../server/listingVibeAlgorithm";
+
+// Descriptions lifted from real listing copy (addresses removed).
+const FIXTURES = {
+  loft: "Authentic warehouse conversion in the old factory district. Soaring high ceilings, exposed brick, polished concrete floors and original steel beams. Oversized large grid windows flood the open plan with light.",
+  penthouse: "Full-floor penthouse with unobstructed skyline views. Book-matched marble throughout, a statement crystal chandelier in the dining room, and gold fixtures in the primary bath.",
+  retriever: "Golden retriever friendly yard with a dog run! Drawers and built-ins in every bedroom, new roof 2021, walk to schools.",
+  negated: "Move-in ready. No carpet, no neon, no smart home gadgets to fuss with. Warm oak floors and traditional molding throughout this historic heritage home.",
+  cabin: "A true retreat among the trees: biophilic design, living walls of plants, reclaimed wood and natural stone, with natural light pouring through every room.",
+};
+
+assert.equal(LISTING_VIBE_ALGORITHM_VERSION, "taste-portfolio-v3", "Keyword scoring changes must bump the algorithm version");
+
+const loft = computeListingVibeVector({ description: FIXTURES.loft });
+assert.equal(loft.topVibes[0].vibe, "Industrialist", "A warehouse loft should read as Industrialist");
+assert.ok(
+  loft.rationale[0].matched.includes("exposed brick") && loft.rationale[0].matched.includes("large grid windows"),
+  "Phrase terms should match across normalized plurals"
+);
+
+const penthouse = computeListingVibeVector({ description: FIXTURES.penthouse });
+assert.equal(penthouse.topVibes[0].vibe, "Monarch", "A marble penthouse should read as Monarch");
+
+const retriever = computeListingVibeVector({ description: FIXTURES.retriever });
+const retrieverMatches = retriever.rationale.flatMap((r) => r.matched);
+assert.ok(!retrieverMatches.includes("gold"), "\"gold\" should not match inside \"golden\"");
+assert.ok(!retrieverMatches.includes("raw"), "\"raw\" should not match inside \"drawers\"");
+
+const negated = computeListingVibeVector({ description: FIXTURES.negated });
+assert.equal(negated.topVibes[0].vibe, "Classicist", "Negated Futurist terms should not outweigh the Classicist copy");
+assert.equal(negated.vibeVector.Futurist, negated.vibeVector.Purist, "Negated terms should leave Futurist at the floor");
+const classicist = negated.rationale.find((r) => r.vibe === "Classicist");
+assert.deepEqual(classicist?.negated, [], "Unnegated terms should not be reported as negated");
+
+const cabin = computeListingVibeVector({ description: FIXTURES.cabin });
+assert.equal(cabin.topVibes[0].vibe, "Naturalist", "A biophilic cabin should read as Naturalist");
+
+const corpus = Object.values(FIXTURES).map((description) => ({ description }));
+const idf = buildListingTermIdf(corpus);
+assert.ok(idf["natural light"] > 1, "Terms seen in some listings should still carry weight");
+assert.ok(idf["zero clutter"] > idf["natural light"], "Unseen terms should have the highest IDF");
+
+const repeated = { description: "Marble lobby, marble kitchen, marble baths. Warehouse storage unit included." };
+const withIdf = computeListingVibeVector(repeated, undefined, {
+  idf: buildListingTermIdf([...corpus, ...Array.from({ length: 5 }, () => ({ description: "Marble counters." }))]),
+});
+const withoutIdf = computeListingVibeVector(repeated);
+assert.ok(
+  withIdf.vibeVector.Monarch < withoutIdf.vibeVector.Monarch,
+  "Terms common across the corpus should be down-weighted by IDF"
+);
+
+const textOnly = blendListingVibeVector(loft, []);
+assert.deepEqual(textOnly.vibeVector, loft.vibeVector, "Without photos the ensemble should return the text vector");
+
+const curatorPhoto = { vibeVector: { Curator: 1 }, confidence: 0.9 };
+const blended = blendListingVibeVector(loft, [curatorPhoto, curatorPhoto]);
+assert.ok(blended.vibeVector.Curator > loft.vibeVector.Curator, "Confident photos should pull the blend toward their vibe");
+assert.deepEqual(blended.rationale, loft.rationale, "Blending should keep the text rationale");
+
+const unsure = blendListingVibeVector(loft, [{ vibeVector: { Curator: 1 }, confidence: 0.1 }]);
+assert.ok(unsure.vibeVector.Curator < blended.vibeVector.Curator, "Low-confidence photos should carry less weight");
+
+const photoOnly = blendListingVibeVector(loft, [curatorPhoto], undefined, { text: 0, photo: 1 });
+assert.equal(photoOnly.topVibes[0].vibe, "Curator", "Ensemble weights should be configurable");
+
+console.log("listingVibeAlgorithm regression checks passed.");
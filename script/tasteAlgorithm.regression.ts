@@ -1,5 +1,25 @@
 import assert from "node:assert/strict";
-import { buildStagingPrompt, computeTasteScore } from "@shared/tasteAlgorithm";
+import {
+  buildStagingPrompt,
+  computeBuyerVibeVector,
+  combineVibeVectors,
+  computeCompositeMatch,
+  computeHouseholdCompatibility,
+  computeJointMatchScore,
+  computeListingSimilarity,
+  createSeededRandom,
+  detectTasteDrift,
+  rankFeedCandidates,
+  computePopulationPrior,
+  computeProfileConfidence,
+  computeTasteScore,
+  computeVectorMatchScore,
+  explainBuyerVibeVector,
+  explainVectorMatch,
+  DEFAULT_VIBE_REGISTRY,
+  type VibeRegistry,
+} from "@shared/tasteAlgorithm";
+import { computeAuc, createScorers, evaluateScorer, type EvalListing } from "../server/matchEvaluation";
 
 const noProfileScore = computeTasteScore(undefined, "Purist");
 assert.equal(noProfileScore, 0, "computeTasteScore should return 0 when no profile exists");
@@ -24,4 +44,231 @@ for (const phrase of requiredPhrases) {
   assert.ok(prompt.includes(phrase), `Prompt missing required constraint phrase: ${phrase}`);
 }
 
+const now = new Date("2025-06-01T00:00:00Z");
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+const driftingProfile = computeBuyerVibeVector(
+  [
+    { vibe: "Purist", action: "like", createdAt: daysAgo(90) },
+    { vibe: "Purist", action: "like", createdAt: daysAgo(85) },
+    { vibe: "Purist", action: "like", createdAt: daysAgo(80) },
+    { vibe: "Naturalist", action: "like", createdAt: daysAgo(1) },
+    { vibe: "Naturalist", action: "like", createdAt: daysAgo(0) },
+  ],
+  { now }
+);
+assert.equal(driftingProfile.topVibes[0].vibe, "Naturalist", "Recent swipes should outweigh stale ones");
+assert.ok(
+  driftingProfile.rawVector.Purist > driftingProfile.rawVector.Naturalist,
+  "rawVector should ignore recency decay"
+);
+
+const dwellProfile = computeBuyerVibeVector(
+  [
+    { vibe: "Curator", action: "like", dwellMs: 500 },
+    { vibe: "Monarch", action: "like", dwellMs: 12000 },
+  ],
+  { now }
+);
+assert.ok(dwellProfile.vector.Monarch > dwellProfile.vector.Curator, "Longer dwell should carry more weight");
+
+const blendedProfile = computeBuyerVibeVector([
+  { vibeVector: { Industrialist: 0.6, Curator: 0.4 }, action: "like" },
+]);
+assert.equal(blendedProfile.vector.Industrialist, 0.6, "Listing vector shares should carry into the buyer vector");
+assert.equal(blendedProfile.vector.Curator, 0.4, "Secondary listing vibes should also move the buyer vector");
+
+const avoidingProfile = computeBuyerVibeVector([
+  { vibe: "Purist", action: "like" },
+  { vibe: "Monarch", action: "nope" },
+  { vibe: "Monarch", action: "nope" },
+  { vibe: "Monarch", action: "nope" },
+]);
+assert.ok(avoidingProfile.avoidanceVector.Monarch > 0, "Repeated nopes should build an avoidance signal");
+assert.equal(avoidingProfile.avoidedVibes[0]?.vibe, "Monarch", "Monarch should be the most avoided vibe");
+const mixedListing = { Purist: 0.5, Monarch: 0.5 };
+assert.ok(
+  computeVectorMatchScore(avoidingProfile.vector, mixedListing, avoidingProfile.avoidanceVector) <
+    computeVectorMatchScore(avoidingProfile.vector, mixedListing),
+  "Listings strong in avoided vibes should score lower"
+);
+
+const explained = explainVectorMatch(avoidingProfile.vector, mixedListing, avoidingProfile.avoidanceVector);
+const contributionTotal = explained.contributions.reduce((sum, c) => sum + c.contribution, 0);
+assert.equal(
+  explained.score,
+  computeVectorMatchScore(avoidingProfile.vector, mixedListing, avoidingProfile.avoidanceVector),
+  "Explanations should report the same score as computeVectorMatchScore"
+);
+assert.ok(Math.abs(contributionTotal - explained.score) < 1, "Per-vibe contributions should add up to the score");
+const eventBreakdown = explainBuyerVibeVector([
+  { vibe: "Purist", action: "like" },
+  { action: "like" },
+  { vibe: "Monarch", action: "nope" },
+]);
+assert.deepEqual(eventBreakdown.map((e) => e.index), [0, 2], "Events without vibe signal should be left out");
+assert.ok(eventBreakdown[1].contributions.Monarch < 0, "Nopes should contribute negatively to their vibe");
+
+const keptSave = computeBuyerVibeVector([
+  { vibe: "Purist", action: "like" },
+  { vibe: "Monarch", action: "save" },
+]);
+const removedSave = computeBuyerVibeVector([
+  { vibe: "Purist", action: "like" },
+  { vibe: "Monarch", action: "save" },
+  { vibe: "Monarch", action: "unsave" },
+]);
+assert.ok(removedSave.vector.Monarch < keptSave.vector.Monarch, "Removing a save should weaken that vibe");
+assert.equal(removedSave.topVibes[0]?.vibe, "Purist", "A removed save should no longer lead the profile");
+
+const population = computePopulationPrior([
+  { vibeVector: { Naturalist: 1 }, action: "like", count: 30 },
+  { vibeVector: { Purist: 1 }, action: "like", count: 10 },
+]);
+assert.ok(population.Naturalist > population.Purist, "Population prior should follow aggregate engagement");
+const coldStart = computeBuyerVibeVector([{ vibe: "Monarch", action: "save" }], { prior: population });
+assert.ok(coldStart.vector.Monarch < 1, "A single save should not produce a 100% vibe once a prior is applied");
+assert.equal(coldStart.topVibes[0]?.vibe, "Monarch", "The buyer's own save should still lead the profile");
+assert.ok(coldStart.confidence < 0.2, "One swipe should yield low confidence");
+const staleSave = computeBuyerVibeVector(
+  [{ vibe: "Monarch", action: "save", createdAt: new Date("2024-01-01T00:00:00Z") }],
+  { prior: population, now: new Date("2024-03-01T00:00:00Z") }
+);
+assert.ok(
+  Math.abs(staleSave.vector.Monarch - coldStart.vector.Monarch) < 0.001,
+  "The prior should decay with the history, not outweigh an old save"
+);
+const variedConfidence = computeProfileConfidence(
+  ["Purist", "Monarch", "Naturalist", "Curator", "Purist", "Futurist", "Monarch", "Naturalist", "Purist", "Curator"].map(
+    (vibe) => ({ vibe, action: "like" as const })
+  )
+);
+const narrowConfidence = computeProfileConfidence(
+  Array.from({ length: 10 }, () => ({ vibe: "Purist", action: "like" as const }))
+);
+assert.ok(variedConfidence > narrowConfidence, "Swipes across more vibes should raise confidence");
+assert.ok(variedConfidence > 0.5, "Ten varied swipes should pass the default lead confidence threshold");
+
+const feedBuyer = computeBuyerVibeVector(
+  Array.from({ length: 6 }, () => ({ vibe: "Purist", action: "like" as const }))
+);
+const feedCandidates = [
+  ...Array.from({ length: 6 }, (_, i) => ({ item: `purist-${i}`, vector: { Purist: 1 }, topVibe: "Purist" })),
+  ...Array.from({ length: 4 }, (_, i) => ({ item: `monarch-${i}`, vector: { Monarch: 1 }, topVibe: "Monarch" })),
+];
+const rankedFeed = rankFeedCandidates(feedCandidates, feedBuyer, {
+  exploreRate: 0.2,
+  maxVibeRun: 2,
+  random: createSeededRandom("regression"),
+});
+assert.equal(rankedFeed.length, feedCandidates.length, "Ranking should keep every candidate");
+assert.equal(rankedFeed[0].reason, "exploit", "A known buyer's first card should come from their vector");
+for (let i = 2; i < 6; i++) {
+  const run = rankedFeed.slice(i - 2, i + 1).map((entry) => entry.item.split("-")[0]);
+  assert.ok(new Set(run).size > 1, "No vibe should appear three times in a row while alternatives remain");
+}
+assert.ok(rankedFeed.some((entry) => entry.reason === "diversity"), "Diversity picks should be labelled");
+
+assert.deepEqual(
+  detectTasteDrift({ Purist: 0.6, Monarch: 0.4 }, { Purist: 0.3, Monarch: 0.7 }),
+  { from: "Purist", to: "Monarch", shift: 0.4 },
+  "A clear change of top vibe should be reported as drift"
+);
+assert.equal(
+  detectTasteDrift({ Purist: 0.6, Monarch: 0.4 }, { Purist: 0.48, Monarch: 0.52 }),
+  null,
+  "Near-ties should not count as drift"
+);
+
+const householdVector = combineVibeVectors([{ Purist: 1 }, { Purist: 0.5, Naturalist: 0.5 }]);
+assert.equal(householdVector.Purist, 0.75, "Household vectors should average members equally");
+assert.equal(
+  computeHouseholdCompatibility([
+    { id: "a", vector: { Purist: 1 } },
+    { id: "b", vector: { Monarch: 1 } },
+  ]).score,
+  0,
+  "Members with disjoint tastes should have zero compatibility"
+);
+assert.ok(
+  computeJointMatchScore([90, 90]) > computeJointMatchScore([100, 40]),
+  "Joint ranking should favour listings both members like over one member's favourite"
+);
+
+const baseHome = { vector: { Purist: 0.8, Naturalist: 0.2 }, price: 600000, bedrooms: 3 };
+const twinHome = computeListingSimilarity(baseHome, { vector: { Purist: 0.75, Naturalist: 0.25 }, price: 620000, bedrooms: 3 });
+const mansion = computeListingSimilarity(baseHome, { vector: { Purist: 0.8, Naturalist: 0.2 }, price: 4000000, bedrooms: 7 });
+const oppositeVibe = computeListingSimilarity(baseHome, { vector: { Monarch: 1 }, price: 600000, bedrooms: 3 });
+assert.ok(twinHome.score > 90, "A same-vibe, same-price home should be highly similar");
+assert.ok(twinHome.score > mansion.score, "Price and bedroom distance should lower similarity");
+assert.ok(twinHome.score > oppositeVibe.score, "Vibe distance should lower similarity");
+
+const penthouseMatch = computeCompositeMatch({
+  vibeScore: 95,
+  criteria: { budgetMin: 450000, budgetMax: 600000, bedrooms: 2, locations: ["Texas"] },
+  listing: { price: 4000000, bedrooms: 3, sqft: 3200, location: "Austin, Texas" },
+});
+assert.equal(penthouseMatch.components.price, 0, "A listing far over budget should have no price fit");
+assert.ok(penthouseMatch.score < 85, "An over-budget listing should not reach the lead threshold on vibe alone");
+const vibeOnlyMatch = computeCompositeMatch({
+  vibeScore: 80,
+  criteria: {},
+  listing: { price: 500000, bedrooms: 2, sqft: 1100, location: "Austin, Texas" },
+});
+assert.equal(vibeOnlyMatch.score, 80, "Without buyer criteria the composite score should equal the vibe score");
+
+const coastalRegistry: VibeRegistry = {
+  vibes: [...DEFAULT_VIBE_REGISTRY.vibes, "Coastal"],
+  definitions: {
+    ...DEFAULT_VIBE_REGISTRY.definitions,
+    Coastal: {
+      keywords: ["beach", "shiplap"],
+      visualCues: ["white oak", "linen"],
+      psychology: ["ease"],
+      copyHook: "Salt air, slow mornings.",
+      forbiddenChanges: ["windows"],
+      stagingStyleRules: { do: ["light linen textiles"], dont: ["heavy drapes"] },
+      promptSeeds: ["airy beach house interior"],
+    },
+  },
+};
+const coastalProfile = computeBuyerVibeVector(
+  [{ vibe: "Coastal", action: "save" }, { vibe: "Purist", action: "like" }],
+  {},
+  coastalRegistry
+);
+assert.equal(coastalProfile.topVibes[0]?.vibe, "Coastal", "Organization-defined vibes should flow into buyer profiles");
+assert.equal(computeTasteScore({ Coastal: 3 }, "Coastal", coastalRegistry), 100, "Custom vibes should score like built-ins");
+assert.ok(
+  buildStagingPrompt({ vibe: "Coastal", roomDescription: "Empty den.", registry: coastalRegistry }).includes("Coastal"),
+  "Staging prompts should accept organization-defined vibes"
+);
+
+assert.equal(
+  computeAuc([
+    { score: 90, positive: true },
+    { score: 40, positive: false },
+    { score: 40, positive: true },
+  ]),
+  0.75,
+  "AUC should count ties as half a win"
+);
+const evalListings = new Map<number, EvalListing>(
+  [
+    { id: 1, vector: { Purist: 1 } },
+    { id: 2, vector: { Monarch: 1 } },
+  ].map((l) => [l.id, { ...l, price: 500000, bedrooms: 2, sqft: 1200, location: "Austin, Texas" }])
+);
+const evalStart = Date.UTC(2026, 0, 1);
+const evalEvents = Array.from({ length: 11 }, (_, i) => ({
+  buyerId: "eval-buyer",
+  listingId: i % 2 === 0 ? 1 : 2,
+  action: (i % 2 === 0 ? "like" : "nope") as "like" | "nope",
+  dwellMs: 0,
+  createdAt: new Date(evalStart + i * 60_000),
+}));
+const evalReport = evaluateScorer("decayed", createScorers().decayed, evalEvents, evalListings, { k: 1, horizon: 4 });
+assert.equal(evalReport.buyers, 1, "Replay should evaluate every buyer with enough history");
+assert.equal(evalReport.auc, 1, "A consistent buyer should be perfectly ranked on replay");
+assert.equal(evalReport.precisionAtK, 1, "The top-ranked upcoming listing should be a like");
+
 console.log("tasteAlgorithm regression checks passed.");
@@ -0,0 +1,99 @@
+import type { Buyer, BuyerContactChannel, InsertLead, Lead } from "@shared/schema";
+import { storage } from "./storage";
+import { sendEmail, sendSms } from "./notificationService";
+
+const CLAIM_CODE_TTL_MS = 10 * 60 * 1000;
+const ANONYMOUS_LEAD_NAME = "Anonymous Buyer";
+const MISSING_PHONE = "N/A";
+
+// Canonical form used both when sending and when redeeming a code, so
+// "Jo@Example.com " and "jo@example.com" hit the same row. Returns null for
+// values that cannot be an address or number.
+export function normalizeBuyerContact(channel: BuyerContactChannel, contact: string): string | null {
+  const value = contact.trim();
+  if (channel === "email") {
+    const email = value.toLowerCase();
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : null;
+  }
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 7 || digits.length > 15) return null;
+  return value.startsWith("+") ? `+${digits}` : digits;
+}
+
+// Enough of a verified contact for the buyer to recognise it: "j***@example.com"
+// or "***4567".
+export function maskBuyerContact(channel: BuyerContactChannel, value: string): string {
+  if (channel === "email") {
+    const [local, domain] = value.split("@");
+    return `${local.slice(0, 1)}***@${domain ?? ""}`;
+  }
+  return `***${value.slice(-4)}`;
+}
+
+export async function sendBuyerClaimCode(
+  buyerId: string,
+  channel: BuyerContactChannel,
+  destination: string
+): Promise<{ success: boolean; error?: string }> {
+  const code = String(Math.floor(100000 + Math.random() * 900000));
+  const result = channel === "email"
+    ? await sendEmail(
+        destination,
+        "Your Taste Verification Code",
+        `<div style="font-family: sans-serif; max-width: 400px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #b8860b;">Taste</h2>
+          <p>Use this code to link your saved homes to your email:</p>
+          <div style="font-size: 32px; font-weight: bold; letter-spacing: 8px; text-align: center; padding: 20px; background: #f5f5f5; border-radius: 8px; margin: 16px 0;">${code}</div>
+          <p style="color: #666; font-size: 13px;">This code expires in 10 minutes.</p>
+        </div>`
+      )
+    : await sendSms(destination, `Your Taste verification code is ${code}. It expires in 10 minutes.`);
+  if (!result.success) return result;
+
+  await storage.createVerificationCode({
+    email: destination,
+    channel,
+    buyerId,
+    code,
+    expiresAt: new Date(Date.now() + CLAIM_CODE_TTL_MS),
+  });
+  return { success: true };
+}
+
+// Contact columns for a lead owned by this buyer. Leads for buyers who have
+// not claimed an identity keep the anonymous placeholders.
+export function leadContactFields(buyer: Buyer | undefined): Pick<InsertLead, "name" | "phone" | "email" | "contactConsentAt"> {
+  return {
+    name: buyer?.name || ANONYMOUS_LEAD_NAME,
+    phone: buyer?.phone || MISSING_PHONE,
+    email: buyer?.email ?? null,
+    contactConsentAt: buyer?.contactConsentAt ?? null,
+  };
+}
+
+// Redeems a claim code: records the verified contact and consent on the
+// buyer, then back-fills contact details onto every lead they have produced.
+export async function claimBuyerIdentity(
+  buyerId: string,
+  input: { channel: BuyerContactChannel; destination: string; code: string; name?: string },
+  now: Date = new Date()
+): Promise<{ buyer: Buyer; leads: Lead[] } | null> {
+  const redeemed = await storage.consumeVerificationCode(input.destination, input.code, {
+    channel: input.channel,
+    buyerId,
+  });
+  if (!redeemed) return null;
+
+  const buyer = await storage.updateBuyer(buyerId, {
+    ...(input.channel === "email"
+      ? { email: input.destination, emailVerifiedAt: now }
+      : { phone: input.destination, phoneVerifiedAt: now }),
+    ...(input.name ? { name: input.name } : {}),
+    contactConsentAt: now,
+  });
+  if (!buyer) return null;
+
+  const leads = await storage.updateLeadsByBuyer(buyerId, leadContactFields(buyer));
+  console.log(`[BuyerIdentity] Buyer ${buyerId} verified ${input.channel}; updated ${leads.length} lead(s)`);
+  return { buyer, leads };
+}
@@ -0,0 +1,136 @@
+import type { Request } from "express";
+import {
+  DEFAULT_VIBE_REGISTRY,
+  computeBuyerVibeVector,
+  isRegisteredVibe,
+  resolveVibeDefinition,
+  type BuyerSwipeAction,
+  type BuyerVectorOptions,
+  type BuyerVibeEvent,
+  type BuyerVibeProfile,
+  type VibeRegistry,
+  type VibeVector,
+} from "@shared/tasteAlgorithm";
+import type { SwipeEvent } from "@shared/schema";
+import { storage } from "./storage";
+import { getBuyerVectorOptions } from "./tasteConfig";
+import { getPopulationPrior } from "./populationPrior";
+
+// Matches the ids written by the swipes -> swipe_events migration.
+export const LEGACY_BUYER_PREFIX = "legacy-";
+
+export type BuyerHistory = {
+  events: SwipeEvent[];
+  listingMap: Map<number, any>;
+};
+
+export function getTopVibeFromProperty(property: any, registry: VibeRegistry = DEFAULT_VIBE_REGISTRY): string | null {
+  const fromTop = Array.isArray(property?.vibeTop) ? property.vibeTop[0]?.vibe : null;
+  if (isRegisteredVibe(fromTop, registry)) return fromTop;
+  if (isRegisteredVibe(property?.vibeTag, registry)) return property.vibeTag;
+  return null;
+}
+
+export function getListingVector(property: any, registry: VibeRegistry = DEFAULT_VIBE_REGISTRY): Partial<VibeVector> | null {
+  const raw = property?.vibeVector;
+  if (raw && typeof raw === "object") return raw as Partial<VibeVector>;
+  const top = getTopVibeFromProperty(property, registry);
+  if (!top) return null;
+  return Object.fromEntries(registry.vibes.map((v) => [v, v === top ? 1 : 0]));
+}
+
+export function toBuyerVibeEvents(
+  events: SwipeEvent[],
+  listingMap: Map<number, any>,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): BuyerVibeEvent[] {
+  return events.map((event) => ({
+    action: event.action as BuyerSwipeAction,
+    vibeVector: getListingVector(listingMap.get(event.listingId), registry),
+    dwellMs: event.dwellMs,
+    createdAt: event.createdAt,
+  }));
+}
+
+export async function resolveBuyerVectorOptions(): Promise<BuyerVectorOptions> {
+  return { ...getBuyerVectorOptions(), prior: await getPopulationPrior() };
+}
+
+export async function loadBuyerHistory(buyerId: string): Promise<BuyerHistory> {
+  const events = await storage.getSwipeEventsByBuyer(buyerId);
+  const listingIds = Array.from(new Set(events.map((e) => e.listingId)));
+  const listings = await storage.getPropertiesByIds(listingIds);
+  return { events, listingMap: new Map<number, any>(listings.map((p) => [p.id, p])) };
+}
+
+export async function loadBuyerProfile(
+  buyerId: string,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): Promise<BuyerHistory & { profile: BuyerVibeProfile }> {
+  const history = await loadBuyerHistory(buyerId);
+  const profile = computeBuyerVibeVector(
+    toBuyerVibeEvents(history.events, history.listingMap, registry),
+    await resolveBuyerVectorOptions(),
+    registry
+  );
+  return { ...history, profile };
+}
+
+export function legacyBuyerId(sessionId: string): string {
+  return `${LEGACY_BUYER_PREFIX}${sessionId}`;
+}
+
+// Read-only lookup: falls back to the migrated legacy id without creating a
+// buyer row.
+export function getSessionBuyerId(req: Request): string | null {
+  if (req.session.buyerId) return req.session.buyerId;
+  return req.sessionID ? legacyBuyerId(req.sessionID) : null;
+}
+
+// Binds the session to a buyer so the consumer deck and the feed share one
+// event stream. Sessions that predate buyer ids keep the id the migration
+// gave their old swipes.
+export async function resolveSessionBuyerId(req: Request): Promise<string> {
+  if (req.session.buyerId) return req.session.buyerId;
+  const buyerId = legacyBuyerId(req.sessionID || "anonymous");
+  const existing = await storage.getBuyer(buyerId);
+  if (!existing) {
+    await storage.createBuyer({ id: buyerId } as any);
+  }
+  req.session.buyerId = buyerId;
+  return buyerId;
+}
+
+// Legacy taste counts (right swipes per vibe tag), derived from the event
+// stream for clients that still read `tasteProfile`.
+export function toLegacyTasteCounts(
+  events: SwipeEvent[],
+  listingMap: Map<number, any>,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const event of events) {
+    if (event.action !== "like" && event.action !== "save") continue;
+    const vibe = getTopVibeFromProperty(listingMap.get(event.listingId), registry);
+    if (!vibe) continue;
+    counts[vibe] = (counts[vibe] || 0) + 1;
+  }
+  return counts;
+}
+
+export function buildTalkTrack(
+  topBuyerVibe: string | null,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): { talkTrack: string; avoidList: string[] } {
+  const vibeDef = resolveVibeDefinition(topBuyerVibe, registry);
+  if (!topBuyerVibe || !vibeDef) {
+    return {
+      talkTrack: "This buyer is still emerging. Pitch based on clear style cues and price fit.",
+      avoidList: [],
+    };
+  }
+  return {
+    talkTrack: `This buyer is ${topBuyerVibe}. Pitch ${vibeDef.copyHook}. Show them listings that feel ${vibeDef.keywords.slice(0, 4).join(", ")}.`,
+    avoidList: vibeDef.forbiddenChanges,
+  };
+}
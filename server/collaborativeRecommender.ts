@@ -0,0 +1,190 @@
+import type { BuyerSwipeAction } from "@shared/tasteAlgorithm";
+import { storage } from "./storage";
+import { getCollaborativeMaxEvents, getCollaborativeReloadMs, getCollaborativeWindowDays } from "./tasteConfig";
+
+// Interaction strength per action. Skips carry no preference either way.
+const INTERACTION_WEIGHTS: Record<BuyerSwipeAction, number> = {
+  save: 3,
+  like: 2,
+  skip: 0,
+  nope: -1,
+  unsave: -1,
+};
+
+const DEFAULT_NEIGHBOR_COUNT = 25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CollaborativeRecommendation = {
+  listingId: number;
+  score: number;
+  supporters: number;
+};
+
+type SwipeInteraction = { buyerId: string; listingId: number; action: string };
+
+// In-memory index over recent swipe_events, rebuilt every few minutes so
+// swipes handled by other instances show up, and updated in between as this
+// process handles swipes. Only the latest action per buyer/listing pair is kept.
+type InteractionIndex = {
+  buyerInteractions: Map<string, Map<number, BuyerSwipeAction>>;
+  listingBuyers: Map<number, Set<string>>;
+};
+
+let index: InteractionIndex = emptyIndex();
+let loadedAt = 0;
+let loadPromise: Promise<void> | null = null;
+// Local updates made while a rebuild is in flight, replayed onto the new index.
+let pendingUpdates: Array<(target: InteractionIndex) => void> | null = null;
+
+function emptyIndex(): InteractionIndex {
+  return { buyerInteractions: new Map(), listingBuyers: new Map() };
+}
+
+function isAction(value: string): value is BuyerSwipeAction {
+  return value in INTERACTION_WEIGHTS;
+}
+
+function setInteraction(target: InteractionIndex, buyerId: string, listingId: number, action: BuyerSwipeAction) {
+  let listings = target.buyerInteractions.get(buyerId);
+  if (!listings) {
+    listings = new Map();
+    target.buyerInteractions.set(buyerId, listings);
+  }
+  listings.set(listingId, action);
+
+  let buyers = target.listingBuyers.get(listingId);
+  if (!buyers) {
+    buyers = new Set();
+    target.listingBuyers.set(listingId, buyers);
+  }
+  buyers.add(buyerId);
+}
+
+function deleteInteraction(target: InteractionIndex, buyerId: string, listingId: number) {
+  target.buyerInteractions.get(buyerId)?.delete(listingId);
+  target.listingBuyers.get(listingId)?.delete(buyerId);
+}
+
+function applyUpdate(update: (target: InteractionIndex) => void) {
+  update(index);
+  pendingUpdates?.push(update);
+}
+
+async function rebuildIndex(): Promise<void> {
+  pendingUpdates = [];
+  try {
+    const rows = await storage.getSwipeInteractions({
+      since: new Date(Date.now() - getCollaborativeWindowDays() * DAY_MS),
+      limit: getCollaborativeMaxEvents(),
+    });
+    const next = emptyIndex();
+    // Rows are newest first, so the first row per pair is its latest action.
+    for (const row of rows) {
+      if (next.buyerInteractions.get(row.buyerId)?.has(row.listingId)) continue;
+      if (isAction(row.action)) setInteraction(next, row.buyerId, row.listingId, row.action);
+    }
+    for (const update of pendingUpdates) update(next);
+    index = next;
+    loadedAt = Date.now();
+  } finally {
+    pendingUpdates = null;
+  }
+}
+
+async function ensureLoaded(): Promise<void> {
+  if (!loadPromise && (loadedAt === 0 || Date.now() - loadedAt >= getCollaborativeReloadMs())) {
+    const initial = loadedAt === 0;
+    loadPromise = rebuildIndex().finally(() => {
+      loadPromise = null;
+    });
+    if (!initial) {
+      loadPromise.catch((error: any) => {
+        console.warn(`[CollaborativeRecommender] Failed to reload swipe index: ${error?.message ?? error}`);
+      });
+    }
+  }
+  // A stale index keeps serving while the next one loads.
+  if (loadedAt === 0 && loadPromise) await loadPromise;
+}
+
+export function recordCollaborativeSwipe(event: SwipeInteraction): void {
+  const action = event.action;
+  if (!isAction(action)) return;
+  applyUpdate((target) => setInteraction(target, event.buyerId, event.listingId, action));
+}
+
+// Rolls a buyer/listing pair back to the action before an undone swipe, or
+// drops the pair when the undone swipe was the only one.
+export function forgetCollaborativeSwipe(buyerId: string, listingId: number, previousAction: string | null): void {
+  if (previousAction && isAction(previousAction)) {
+    applyUpdate((target) => setInteraction(target, buyerId, listingId, previousAction));
+    return;
+  }
+  applyUpdate((target) => deleteInteraction(target, buyerId, listingId));
+}
+
+function norm(listings: Map<number, BuyerSwipeAction>): number {
+  let sum = 0;
+  for (const action of Array.from(listings.values())) sum += INTERACTION_WEIGHTS[action] ** 2;
+  return Math.sqrt(sum);
+}
+
+function findNeighbors(buyerId: string, limit: number): Array<{ buyerId: string; similarity: number }> {
+  const own = index.buyerInteractions.get(buyerId);
+  if (!own) return [];
+  const ownNorm = norm(own);
+  if (ownNorm === 0) return [];
+
+  const dots = new Map<string, number>();
+  for (const [listingId, action] of Array.from(own.entries())) {
+    const weight = INTERACTION_WEIGHTS[action];
+    if (weight === 0) continue;
+    for (const other of Array.from(index.listingBuyers.get(listingId) || [])) {
+      if (other === buyerId) continue;
+      const otherAction = index.buyerInteractions.get(other)?.get(listingId);
+      if (!otherAction) continue;
+      dots.set(other, (dots.get(other) || 0) + weight * INTERACTION_WEIGHTS[otherAction]);
+    }
+  }
+
+  return Array.from(dots.entries())
+    .map(([other, dot]) => {
+      const otherNorm = norm(index.buyerInteractions.get(other)!);
+      return { buyerId: other, similarity: otherNorm > 0 ? dot / (ownNorm * otherNorm) : 0 };
+    })
+    .filter((n) => n.similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+// User-based collaborative filtering: listings saved by the buyers whose
+// swipe histories look most like this buyer's, excluding anything they have
+// already seen.
+export async function getCollaborativeRecommendations(
+  buyerId: string,
+  { limit = 12, neighbors = DEFAULT_NEIGHBOR_COUNT }: { limit?: number; neighbors?: number } = {}
+): Promise<CollaborativeRecommendation[]> {
+  await ensureLoaded();
+  const seen = index.buyerInteractions.get(buyerId);
+  if (!seen) return [];
+
+  const scores = new Map<number, { score: number; supporters: number }>();
+  for (const neighbor of findNeighbors(buyerId, neighbors)) {
+    for (const [listingId, action] of Array.from(index.buyerInteractions.get(neighbor.buyerId)!.entries())) {
+      if (action !== "save" || seen.has(listingId)) continue;
+      const entry = scores.get(listingId) || { score: 0, supporters: 0 };
+      entry.score += neighbor.similarity;
+      entry.supporters += 1;
+      scores.set(listingId, entry);
+    }
+  }
+
+  return Array.from(scores.entries())
+    .map(([listingId, entry]) => ({
+      listingId,
+      score: Number(entry.score.toFixed(4)),
+      supporters: entry.supporters,
+    }))
+    .sort((a, b) => b.score - a.score || b.supporters - a.supporters)
+    .slice(0, limit);
+}
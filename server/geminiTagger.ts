@@ -1,10 +1,23 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
-import { VIBES, VIBE_DEFINITIONS } from "@shared/tasteAlgorithm";
-
-const VALID_ARCHETYPES = VIBES;
-export type Archetype = (typeof VALID_ARCHETYPES)[number] | "Unclassified";
-
-const orderedVibes = [
+import { DEFAULT_VIBE_REGISTRY, type Vibe, type VibeRegistry, type VibeVector } from "@shared/tasteAlgorithm";
+import { LISTING_ROOM_TYPES, type ListingRoomType } from "@shared/schema";
+import { readImageDimensions } from "./imageDimensions";
+
+export type Archetype = string;
+
+export type PhotoVibeClassification = {
+  url: string;
+  vibeVector: VibeVector;
+  topVibe: string;
+  confidence: number;
+  roomType: ListingRoomType;
+  isEmpty: boolean;
+  qualityScore: number | null;
+  width: number | null;
+  height: number | null;
+};
+
+const orderedVibes: readonly Vibe[] = [
   "Monarch",
   "Industrialist",
   "Purist",
@@ -13,32 +26,149 @@ const orderedVibes = [
   "Curator",
   "Nomad",
   "Classicist",
-] as const;
+];
 
-const archetypeSpec = orderedVibes
-  .map((name, idx) => {
-    const def = VIBE_DEFINITIONS[name];
-    return `${idx + 1}. ${name.toUpperCase()}
+function orderRegistryVibes(registry: VibeRegistry): string[] {
+  const builtIns = orderedVibes.filter((name) => registry.vibes.includes(name));
+  const custom = registry.vibes.filter((name) => !(orderedVibes as readonly string[]).includes(name));
+  return [...builtIns, ...custom];
+}
+
+export function buildVibeBiblePrompt(registry: VibeRegistry = DEFAULT_VIBE_REGISTRY): string {
+  const names = orderRegistryVibes(registry);
+  const archetypeSpec = names
+    .map((name, idx) => {
+      const def = registry.definitions[name];
+      return `${idx + 1}. ${name.toUpperCase()}
    Keywords: "${def.keywords.join('", "')}"
    Visuals: ${def.visualCues.join(", ")}
    Psychology: ${def.psychology.join(", ")}`;
-  })
-  .join("\n\n");
+    })
+    .join("\n\n");
 
-const VIBE_BIBLE_PROMPT = `You are the "Vibe Bible" - a strict real estate archetype classifier. Analyze the property listing (image and/or description) and classify it into exactly ONE of the 8 mutually exclusive archetypes below.
+  return `You are the "Vibe Bible" - a strict real estate archetype classifier. Analyze the property listing (image and/or description) and classify it into exactly ONE of the ${names.length} mutually exclusive archetypes below.
 
-THE 8 ARCHETYPES (Mutually Exclusive):
+THE ${names.length} ARCHETYPES (Mutually Exclusive):
 
 ${archetypeSpec}
 
 RULES:
-- Select the SINGLE best-fit archetype from the 8 above.
+- Select the SINGLE best-fit archetype from the ${names.length} above.
 - Match based on keywords in the listing text AND visual cues in the image.
 - If ambiguous and the property has vibrant colors or bold art, default to "Curator".
 - If ambiguous and the property has neutral/traditional elements, default to "Classicist".
 - Return ONLY the single archetype word (e.g. "Monarch"). No explanation, no punctuation.`;
+}
+
+export function buildVibeDistributionPrompt(registry: VibeRegistry = DEFAULT_VIBE_REGISTRY): string {
+  const names = orderRegistryVibes(registry);
+  const archetypeSpec = names
+    .map((name, idx) => {
+      const def = registry.definitions[name];
+      return `${idx + 1}. ${name.toUpperCase()}
+   Visuals: ${def.visualCues.join(", ")}`;
+    })
+    .join("\n\n");
+
+  return `You are the "Vibe Bible" - a real estate archetype classifier. Score how strongly this single listing photo expresses each of the ${names.length} archetypes below.
+
+${archetypeSpec}
 
-export async function classifyPropertyImage(imageUrl: string): Promise<Archetype> {
+RULES:
+- Give every archetype a score from 0 to 1. Scores do not need to sum to 1.
+- Set "confidence" from 0 to 1: low for exteriors, floor plans, blurry or empty shots where style is hard to read.
+- Set "roomType" to one of: ${LISTING_ROOM_TYPES.join(", ")}.
+- Set "empty" to true when the room is unfurnished.
+- Set "quality" from 0 to 1 for sharpness, exposure and composition.
+- Return ONLY JSON in this shape, no markdown: {"scores": {${names.map((n) => `"${n}": 0`).join(", ")}}, "confidence": 0, "roomType": "other", "empty": false, "quality": 0}`;
+}
+
+async function fetchImage(imageUrl: string): Promise<{ buffer: Buffer; mimeType: string }> {
+  const response = await fetch(imageUrl);
+  if (!response.ok) throw new Error(`image fetch failed with ${response.status}`);
+  return {
+    buffer: Buffer.from(await response.arrayBuffer()),
+    mimeType: response.headers.get("content-type") || "image/jpeg",
+  };
+}
+
+function toImagePart(image: { buffer: Buffer; mimeType: string }) {
+  return { inlineData: { data: image.buffer.toString("base64"), mimeType: image.mimeType } };
+}
+
+function clampUnit(value: unknown): number | null {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.min(1, Math.max(0, parsed)) : null;
+}
+
+type ParsedPhoto = Pick<PhotoVibeClassification, "vibeVector" | "confidence" | "roomType" | "isEmpty" | "qualityScore">;
+
+function parseDistribution(text: string, registry: VibeRegistry): ParsedPhoto | null {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+  const parsed = JSON.parse(json);
+  const scores = parsed?.scores && typeof parsed.scores === "object" ? parsed.scores : {};
+  const raw = registry.vibes.map((vibe) => {
+    const key = Object.keys(scores).find((k) => k.toLowerCase() === vibe.toLowerCase());
+    const value = key ? Number(scores[key]) : 0;
+    return [vibe, Number.isFinite(value) ? Math.max(0, value) : 0] as const;
+  });
+  const total = raw.reduce((sum, [, value]) => sum + value, 0);
+  if (total <= 0) return null;
+
+  const vibeVector: VibeVector = Object.fromEntries(
+    raw.map(([vibe, value]) => [vibe, Math.round((value / total) * 1000) / 1000])
+  );
+  const roomType = String(parsed?.roomType || "").toLowerCase();
+  return {
+    vibeVector,
+    confidence: clampUnit(parsed?.confidence) ?? Math.max(...Object.values(vibeVector)),
+    roomType: (LISTING_ROOM_TYPES as readonly string[]).includes(roomType) ? (roomType as ListingRoomType) : "other",
+    isEmpty: parsed?.empty === true,
+    qualityScore: clampUnit(parsed?.quality),
+  };
+}
+
+// Scores one photo against every vibe and reads its room type, quality and
+// dimensions. Returns null when the tagger is not configured or the photo
+// could not be classified, so callers can fall back to text.
+export async function classifyPhotoVibeDistribution(
+  imageUrl: string,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): Promise<PhotoVibeClassification | null> {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) return null;
+  if (!imageUrl.startsWith("http://") && !imageUrl.startsWith("https://")) return null;
+
+  try {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+    const image = await fetchImage(imageUrl);
+    const result = await model.generateContent([buildVibeDistributionPrompt(registry), toImagePart(image)]);
+    const distribution = parseDistribution(result.response.text(), registry);
+    if (!distribution) {
+      console.warn(`[GeminiTagger] Could not parse vibe distribution for ${imageUrl}`);
+      return null;
+    }
+    const topVibe = Object.entries(distribution.vibeVector).sort((a, b) => b[1] - a[1])[0][0];
+    const dimensions = readImageDimensions(image.buffer);
+    return {
+      url: imageUrl,
+      topVibe,
+      ...distribution,
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+    };
+  } catch (error: any) {
+    console.error(`[GeminiTagger] Photo distribution error for ${imageUrl}: ${error.message}`);
+    return null;
+  }
+}
+
+export async function classifyPropertyImage(
+  imageUrl: string,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): Promise<Archetype> {
   const apiKey = process.env.GEMINI_API_KEY;
   if (!apiKey) {
     console.warn("[GeminiTagger] GEMINI_API_KEY not set, defaulting to Unclassified");
@@ -47,33 +177,22 @@ export async function classifyPropertyImage(imageUrl: string): Promise<Archetype
 
   try {
     const genAI = new GoogleGenerativeAI(apiKey);
+    const vibeBiblePrompt = buildVibeBiblePrompt(registry);
+    const validArchetypes = orderRegistryVibes(registry);
     const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
 
     let result;
 
     if (imageUrl.startsWith("http://") || imageUrl.startsWith("https://")) {
-      const response = await fetch(imageUrl);
-      const arrayBuffer = await response.arrayBuffer();
-      const base64 = Buffer.from(arrayBuffer).toString("base64");
-      const mimeType = response.headers.get("content-type") || "image/jpeg";
-
-      result = await model.generateContent([
-        VIBE_BIBLE_PROMPT,
-        {
-          inlineData: {
-            data: base64,
-            mimeType,
-          },
-        },
-      ]);
+      result = await model.generateContent([vibeBiblePrompt, toImagePart(await fetchImage(imageUrl))]);
     } else {
       result = await model.generateContent([
-        `${VIBE_BIBLE_PROMPT}\n\nThe property has no image available. Classify based on this description: "${imageUrl}"`,
+        `${vibeBiblePrompt}\n\nThe property has no image available. Classify based on this description: "${imageUrl}"`,
       ]);
     }
 
     const text = result.response.text().trim();
-    const matched = VALID_ARCHETYPES.find(
+    const matched = validArchetypes.find(
       (a) => a.toLowerCase() === text.toLowerCase()
     );
 
@@ -82,7 +201,7 @@ export async function classifyPropertyImage(imageUrl: string): Promise<Archetype
       return matched;
     }
 
-    const partialMatch = VALID_ARCHETYPES.find((a) =>
+    const partialMatch = [...validArchetypes].sort((a, b) => b.length - a.length).find((a) =>
       text.toLowerCase().includes(a.toLowerCase())
     );
     if (partialMatch) {
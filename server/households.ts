@@ -0,0 +1,133 @@
+import {
+  DEFAULT_VIBE_REGISTRY,
+  combineVibeVectors,
+  computeHouseholdCompatibility,
+  resolveVibeDefinition,
+  type BuyerVibeProfile,
+  type HouseholdCompatibility,
+  type VibeRegistry,
+  type VibeVector,
+} from "@shared/tasteAlgorithm";
+import crypto from "crypto";
+import type { Household, HouseholdInvite } from "@shared/schema";
+import { storage } from "./storage";
+import { buildTalkTrack, loadBuyerProfile } from "./buyerProfiles";
+
+const HOUSEHOLD_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type HouseholdMemberProfile = {
+  buyerId: string;
+  profile: BuyerVibeProfile;
+  topVibe: string | null;
+  avoidList: string[];
+};
+
+export type HouseholdContext = {
+  household: Household;
+  members: HouseholdMemberProfile[];
+  combinedVector: VibeVector;
+  topVibes: Array<{ vibe: string; score: number }>;
+  compatibility: HouseholdCompatibility;
+};
+
+export async function loadHousehold(
+  householdId: string,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): Promise<HouseholdContext | null> {
+  const household = await storage.getHousehold(householdId);
+  if (!household) return null;
+
+  const memberships = await storage.getHouseholdMembers(householdId);
+  const members = await Promise.all(
+    memberships.map(async ({ buyerId }) => {
+      const { profile } = await loadBuyerProfile(buyerId, registry);
+      const topVibe = profile.topVibes.find((v) => v.score > 0)?.vibe ?? null;
+      return { buyerId, profile, topVibe, avoidList: buildTalkTrack(topVibe, registry).avoidList };
+    })
+  );
+
+  const combinedVector = combineVibeVectors(members.map((m) => m.profile.vector));
+  const topVibes = Object.entries(combinedVector)
+    .map(([vibe, score]) => ({ vibe, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3);
+  const compatibility = computeHouseholdCompatibility(
+    members.map((m) => ({ id: m.buyerId, vector: m.profile.vector }))
+  );
+
+  return { household, members, combinedVector, topVibes, compatibility };
+}
+
+export async function loadHouseholdForBuyer(
+  buyerId: string,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): Promise<HouseholdContext | null> {
+  const membership = await storage.getHouseholdMembership(buyerId);
+  if (!membership) return null;
+  return loadHousehold(membership.householdId, registry);
+}
+
+export function buildHouseholdLeadFields(
+  context: HouseholdContext,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): {
+  householdId: string;
+  talkTrack: string;
+  avoidList: string[];
+  memberAvoidLists: Array<{ buyerId: string; topVibe: string | null; avoidList: string[] }>;
+} {
+  const combinedTop = context.topVibes.find((v) => v.score > 0)?.vibe ?? null;
+  const memberVibes = Array.from(
+    new Set(context.members.map((m) => m.topVibe).filter((v): v is string => !!v))
+  );
+  const vibeDef = resolveVibeDefinition(combinedTop, registry);
+
+  let talkTrack: string;
+  if (!combinedTop || !vibeDef) {
+    talkTrack = buildTalkTrack(null, registry).talkTrack;
+  } else if (memberVibes.length > 1) {
+    talkTrack = `This household leans ${combinedTop}, blending ${memberVibes.join(" and ")}. Pitch ${vibeDef.copyHook}. Show them listings that feel ${vibeDef.keywords.slice(0, 4).join(", ")}, and call out what works for each of them.`;
+  } else {
+    talkTrack = `This household is ${combinedTop}. Pitch ${vibeDef.copyHook}. Show them listings that feel ${vibeDef.keywords.slice(0, 4).join(", ")}.`;
+  }
+
+  const memberAvoidLists = context.members.map((m) => ({
+    buyerId: m.buyerId,
+    topVibe: m.topVibe,
+    avoidList: m.avoidList,
+  }));
+  const avoidList = Array.from(new Set(memberAvoidLists.flatMap((m) => m.avoidList)));
+
+  return { householdId: context.household.id, talkTrack, avoidList, memberAvoidLists };
+}
+
+export async function createHouseholdInvite(householdId: string, createdBy: string): Promise<HouseholdInvite> {
+  return storage.createHouseholdInvite({
+    code: crypto.randomBytes(9).toString("base64url"),
+    householdId,
+    createdBy,
+    expiresAt: new Date(Date.now() + HOUSEHOLD_INVITE_TTL_MS),
+  });
+}
+
+export type HouseholdJoinResult =
+  | { status: "joined"; householdId: string }
+  | { status: "invalid" }
+  | { status: "already_member"; householdId: string };
+
+// Redeems an invite for the buyer. Buyers already in a household have to
+// leave it first rather than being moved silently.
+export async function joinHousehold(code: string, buyerId: string): Promise<HouseholdJoinResult> {
+  const existing = await storage.getHouseholdMembership(buyerId);
+  if (existing) return { status: "already_member", householdId: existing.householdId };
+
+  const invite = await storage.acceptHouseholdInvite(code, buyerId);
+  if (!invite) return { status: "invalid" };
+
+  const member = await storage.addHouseholdMember(invite.householdId, buyerId);
+  if (!member) {
+    const current = await storage.getHouseholdMembership(buyerId);
+    return { status: "already_member", householdId: current?.householdId ?? invite.householdId };
+  }
+  return { status: "joined", householdId: invite.householdId };
+}
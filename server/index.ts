@@ -29,9 +29,11 @@ declare module "express-session" {
     organizationId?: number | null;
     role?: string;
     isAdmin?: boolean;
-    tasteProfile?: Record<string, number>;
+    buyerId?: string;
     emailVerified?: string;
     consumerContact?: string;
+    // Buyer whose contact this session verified through the claim flow.
+    verifiedBuyerId?: string;
   }
 }
 
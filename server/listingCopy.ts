@@ -0,0 +1,222 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { Property } from "@shared/schema";
+import { DEFAULT_VIBE_REGISTRY, resolveVibeDefinition, type VibeDefinition, type VibeRegistry } from "@shared/tasteAlgorithm";
+
+export type ListingCopyText = {
+  headline: string;
+  description: string;
+  socialCaption: string;
+};
+
+export type ListingCopy = ListingCopyText & {
+  vibe: string;
+  accentVibe: string | null;
+  provider: string;
+};
+
+export type ListingCopyContext = {
+  property: Property;
+  vibe: string;
+  definition: VibeDefinition;
+  accentVibe: string | null;
+  accentDefinition: VibeDefinition | null;
+  // Vibe keywords, with those already in the listing text first.
+  matchedKeywords: string[];
+  draft: ListingCopyText;
+};
+
+export type ListingCopyProvider = {
+  name: string;
+  isConfigured(): boolean;
+  generate(context: ListingCopyContext): Promise<ListingCopyText>;
+};
+
+const HEADLINE_MAX = 120;
+const CAPTION_MAX = 300;
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i += 1) hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  return hash;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function truncate(value: string, max: number): string {
+  return value.length <= max ? value : `${value.slice(0, max - 1).trimEnd()}…`;
+}
+
+function hashtag(value: string): string {
+  return `#${value.replace(/[^a-z0-9]+/gi, " ").trim().split(/\s+/).map(capitalize).join("")}`;
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items[0] ?? "";
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function matchKeywords(property: Property, vibe: string, definition: VibeDefinition): string[] {
+  if (definition.keywords.length === 0) return [vibe.toLowerCase()];
+  const text = `${property.title} ${property.description}`.toLowerCase();
+  const matched = definition.keywords.filter((k) => text.includes(k.toLowerCase()));
+  const rest = definition.keywords.filter((k) => !matched.includes(k));
+  return [...matched, ...rest];
+}
+
+type TemplateContext = Omit<ListingCopyContext, "draft">;
+
+const HEADLINES: Array<(c: TemplateContext, place: string) => string> = [
+  (c, place) => `${capitalize(c.matchedKeywords[0])} living in ${place}`,
+  (c, place) => `${c.property.bedrooms}-bed ${c.matchedKeywords[0]} retreat, ${place}`,
+  (c, place) => `${capitalize(c.definition.psychology[0] || c.matchedKeywords[0])} meets ${c.matchedKeywords[1] || c.matchedKeywords[0]} in ${place}`,
+];
+
+const CAPTIONS: Array<(c: TemplateContext, place: string) => string> = [
+  (c, place) => `Just listed in ${place}: ${c.matchedKeywords.slice(0, 2).join(", ")} and room to breathe.`,
+  (c, place) => `For anyone who wants a home that feels ${c.definition.copyHook}. Now showing in ${place}.`,
+  (c) => `${c.property.bedrooms} bd · ${c.property.bathrooms} ba · ${c.property.sqft.toLocaleString()} sqft of ${c.matchedKeywords[0]} character.`,
+];
+
+// Deterministic copy built from the vibe definition and listing facts. The
+// template is chosen from the listing id so each listing keeps the same
+// wording for a vibe, while neighbouring listings read differently.
+export function buildTemplateListingCopy(context: TemplateContext): ListingCopyText {
+  const { property, vibe, definition, accentDefinition } = context;
+  const place = property.location.split(",")[0].trim() || property.location;
+  const pick = hashString(`${property.id}:${vibe}`);
+
+  // Only keywords the listing itself mentions are stated as features.
+  const listingText = `${property.title} ${property.description}`.toLowerCase();
+  const features = context.matchedKeywords.filter((k) => listingText.includes(k.toLowerCase())).slice(0, 3);
+  const sqft = property.sqft.toLocaleString();
+  const sentences = [
+    `A ${property.bedrooms}-bedroom, ${property.bathrooms}-bath home in ${property.location} that feels ${definition.copyHook}.`,
+    features.length > 0 ? `Expect ${joinList(features)} across ${sqft} square feet.` : `${sqft} square feet to make your own.`,
+  ];
+  if (accentDefinition) {
+    sentences.push(`There is a touch of ${context.accentVibe} here too: ${accentDefinition.copyHook}.`);
+  }
+  if (definition.psychology.length > 0) {
+    sentences.push(`Made for buyers who value ${joinList(definition.psychology.slice(0, 3))}.`);
+  }
+
+  const tags = [vibe, ...context.matchedKeywords.slice(0, 2)].map(hashtag).join(" ");
+  return {
+    headline: truncate(HEADLINES[pick % HEADLINES.length](context, place), HEADLINE_MAX),
+    description: sentences.join(" "),
+    socialCaption: truncate(`${CAPTIONS[pick % CAPTIONS.length](context, place)} ${tags}`, CAPTION_MAX),
+  };
+}
+
+function parseCopyJson(text: string): ListingCopyText | null {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+  const parsed = JSON.parse(json);
+  const headline = typeof parsed?.headline === "string" ? parsed.headline.trim() : "";
+  const description = typeof parsed?.description === "string" ? parsed.description.trim() : "";
+  const socialCaption = typeof parsed?.socialCaption === "string" ? parsed.socialCaption.trim() : "";
+  if (!headline || !description || !socialCaption) return null;
+  return {
+    headline: truncate(headline, HEADLINE_MAX),
+    description,
+    socialCaption: truncate(socialCaption, CAPTION_MAX),
+  };
+}
+
+const geminiCopyProvider: ListingCopyProvider = {
+  name: "gemini",
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+  async generate(context) {
+    const { property, vibe, definition, accentVibe, accentDefinition } = context;
+    const prompt = `You write real estate listing copy aimed at one buyer archetype.
+
+ARCHETYPE: ${vibe}
+Hook: ${definition.copyHook}
+Keywords: ${context.matchedKeywords.slice(0, 6).join(", ")}
+Psychology: ${definition.psychology.join(", ")}
+${accentDefinition ? `Secondary archetype to nod to: ${accentVibe} (${accentDefinition.copyHook})\n` : ""}
+LISTING:
+${property.title}, ${property.location}
+${property.bedrooms} bd, ${property.bathrooms} ba, ${property.sqft} sqft, $${property.price.toLocaleString()}
+${property.description}
+
+RULES:
+- Only describe features the listing supports. Do not invent amenities.
+- Headline under ${HEADLINE_MAX} characters, social caption under ${CAPTION_MAX} characters with up to three hashtags.
+- Return ONLY JSON, no markdown: {"headline": "", "description": "", "socialCaption": ""}
+
+A plain draft for reference:
+${JSON.stringify(context.draft)}`;
+
+    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
+    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+    const result = await model.generateContent(prompt);
+    const copy = parseCopyJson(result.response.text());
+    if (!copy) throw new Error("could not parse copy response");
+    return copy;
+  },
+};
+
+const providers = new Map<string, ListingCopyProvider>([[geminiCopyProvider.name, geminiCopyProvider]]);
+
+export function registerListingCopyProvider(provider: ListingCopyProvider): void {
+  providers.set(provider.name, provider);
+}
+
+// The LLM provider named by LISTING_COPY_PROVIDER, if it is registered and
+// has its credentials. Templates are used otherwise.
+function resolveLlmProvider(): ListingCopyProvider | null {
+  const name = (process.env.LISTING_COPY_PROVIDER || "").trim().toLowerCase();
+  if (!name || name === "template") return null;
+  const provider = providers.get(name);
+  if (!provider) {
+    console.warn(`[ListingCopy] Unknown LISTING_COPY_PROVIDER "${name}", using templates`);
+    return null;
+  }
+  return provider.isConfigured() ? provider : null;
+}
+
+// Copy target for a buyer's vector: their top vibe, plus the runner-up as an
+// accent when it is at least half as strong.
+export function copyTargetFromTopVibes(
+  topVibes: Array<{ vibe: string; score: number }>
+): { vibe: string; accentVibe: string | null } | null {
+  const [top, second] = topVibes.filter((v) => v.score > 0);
+  if (!top) return null;
+  return { vibe: top.vibe, accentVibe: second && second.score >= top.score / 2 ? second.vibe : null };
+}
+
+export async function generateListingCopy(
+  property: Property,
+  target: { vibe: string; accentVibe?: string | null },
+  options: { registry?: VibeRegistry; useLlm?: boolean } = {}
+): Promise<ListingCopy> {
+  const registry = options.registry ?? DEFAULT_VIBE_REGISTRY;
+  const definition = resolveVibeDefinition(target.vibe, registry);
+  if (!definition) throw new Error(`Unknown vibe: ${target.vibe}`);
+  const accentDefinition = target.accentVibe !== target.vibe ? resolveVibeDefinition(target.accentVibe, registry) : null;
+  const accentVibe = accentDefinition ? target.accentVibe! : null;
+
+  const base = {
+    property,
+    vibe: target.vibe,
+    definition,
+    accentVibe,
+    accentDefinition,
+    matchedKeywords: matchKeywords(property, target.vibe, definition),
+  };
+  const draft = buildTemplateListingCopy(base);
+
+  const provider = options.useLlm === false ? null : resolveLlmProvider();
+  if (provider) {
+    try {
+      const copy = await provider.generate({ ...base, draft });
+      return { ...copy, vibe: target.vibe, accentVibe, provider: provider.name };
+    } catch (error: any) {
+      console.warn(`[ListingCopy] ${provider.name} failed for property ${property.id}: ${error?.message ?? error}`);
+    }
+  }
+  return { ...draft, vibe: target.vibe, accentVibe, provider: "template" };
+}
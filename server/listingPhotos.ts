@@ -0,0 +1,93 @@
+import type { ListingPhoto, ListingRoomType } from "@shared/schema";
+import type { PhotoVibeClassification } from "./geminiTagger";
+import type { RoomType } from "./modules/staging/stagingTypes";
+import { storage } from "./storage";
+
+const STAGING_ROOM_TYPES: Record<ListingRoomType, RoomType | null> = {
+  kitchen: "kitchen",
+  living: "living",
+  dining: "dining",
+  bedroom: "bed",
+  bathroom: "bath",
+  office: "office",
+  exterior: null,
+  other: "other",
+};
+
+// Keeps listing_photos in step with a property's image list. Photos that were
+// not classified this time keep their previous classification.
+export async function saveListingPhotos(
+  propertyId: number,
+  imageUrls: string[],
+  classified: PhotoVibeClassification[] = []
+): Promise<ListingPhoto[]> {
+  const urls = Array.from(new Set(imageUrls.filter(Boolean)));
+  const byUrl = new Map(classified.map((c) => [c.url, c]));
+  const existing = new Map((await storage.getListingPhotos(propertyId)).map((p) => [p.url, p]));
+
+  return storage.replaceListingPhotos(
+    propertyId,
+    urls.map((url, position) => {
+      const fresh = byUrl.get(url);
+      if (fresh) {
+        return {
+          url,
+          position,
+          roomType: fresh.roomType,
+          isEmpty: fresh.isEmpty,
+          vibeVector: fresh.vibeVector,
+          topVibe: fresh.topVibe,
+          confidence: fresh.confidence,
+          qualityScore: fresh.qualityScore,
+          width: fresh.width,
+          height: fresh.height,
+          classifiedAt: new Date(),
+        };
+      }
+      const previous = existing.get(url);
+      return {
+        url,
+        position,
+        roomType: previous?.roomType ?? "other",
+        isEmpty: previous?.isEmpty ?? false,
+        vibeVector: previous?.vibeVector ?? null,
+        topVibe: previous?.topVibe ?? null,
+        confidence: previous?.confidence ?? null,
+        qualityScore: previous?.qualityScore ?? null,
+        width: previous?.width ?? null,
+        height: previous?.height ?? null,
+        classifiedAt: previous?.classifiedAt ?? null,
+      };
+    })
+  );
+}
+
+// Best photo to lead with for a buyer who leans toward `vibe`: strongest
+// expression of that vibe, discounted by tagger confidence, with photo
+// quality as a tiebreaker.
+export function pickHeroPhoto(photos: ListingPhoto[], vibe: string | null): ListingPhoto | null {
+  if (photos.length === 0) return null;
+  if (!vibe) return photos[0];
+
+  let best: ListingPhoto | null = null;
+  let bestScore = 0;
+  for (const photo of photos) {
+    const affinity = photo.vibeVector?.[vibe] ?? 0;
+    if (affinity <= 0) continue;
+    const score = affinity * (0.5 + 0.5 * (photo.confidence ?? 0)) + 0.2 * (photo.qualityScore ?? 0.5);
+    if (score > bestScore) {
+      best = photo;
+      bestScore = score;
+    }
+  }
+  return best ?? photos[0];
+}
+
+// Highest-quality unfurnished interior, if the tagger found one.
+export function pickStagingPhoto(photos: ListingPhoto[]): (ListingPhoto & { stagingRoomType: RoomType }) | null {
+  const candidates = photos
+    .filter((p) => p.isEmpty && STAGING_ROOM_TYPES[p.roomType as ListingRoomType])
+    .sort((a, b) => (b.qualityScore ?? 0) - (a.qualityScore ?? 0) || a.position - b.position);
+  const best = candidates[0];
+  return best ? { ...best, stagingRoomType: STAGING_ROOM_TYPES[best.roomType as ListingRoomType]! } : null;
+}
@@ -1,57 +1,272 @@
-import { VIBES, VIBE_DEFINITIONS, type Vibe } from "@shared/tasteAlgorithm";
+import { DEFAULT_VIBE_REGISTRY, type VibeRegistry, type VibeVector } from "@shared/tasteAlgorithm";
 
-export const LISTING_VIBE_ALGORITHM_VERSION = "taste-portfolio-v1";
+export const LISTING_VIBE_ALGORITHM_VERSION = "taste-portfolio-v3";
 
 export type ListingVibeResult = {
-  vibeVector: Record<Vibe, number>;
-  topVibes: Array<{ vibe: Vibe; score: number }>;
-  rationale: Array<{ vibe: Vibe; matched: string[]; score: number }>;
+  vibeVector: VibeVector;
+  topVibes: Array<{ vibe: string; score: number }>;
+  rationale: Array<{ vibe: string; matched: string[]; negated: string[]; score: number }>;
   algorithmVersion: string;
 };
 
-type ComputeInput = {
+export type PhotoVibeSignal = {
+  vibeVector: Partial<VibeVector>;
+  confidence: number;
+};
+
+export type VibeEnsembleWeights = {
+  text: number;
+  photo: number;
+};
+
+export const DEFAULT_VIBE_ENSEMBLE_WEIGHTS: VibeEnsembleWeights = {
+  text: 0.4,
+  photo: 0.6,
+};
+
+export type ListingVibeInput = {
   description?: string | null;
   photosText?: string | null;
   structured?: Record<string, unknown>;
 };
 
-export function computeListingVibeVector(input: ComputeInput): ListingVibeResult {
-  const haystack = [
-    input.description || "",
-    input.photosText || "",
-    JSON.stringify(input.structured || {}),
-  ]
-    .join(" ")
-    .toLowerCase();
-
-  const rawScores: Record<Vibe, number> = Object.fromEntries(
-    VIBES.map((v) => [v, 0])
-  ) as Record<Vibe, number>;
-  const rationale: Array<{ vibe: Vibe; matched: string[]; score: number }> = [];
-
-  for (const vibe of VIBES) {
-    const def = VIBE_DEFINITIONS[vibe];
-    const terms = [...def.keywords, ...def.visualCues];
-    const matched = terms.filter((term) => haystack.includes(term.toLowerCase()));
-    const score = Math.max(0.01, matched.length);
+// Inverse document frequency per lowercased registry term.
+export type ListingTermIdf = Record<string, number>;
+
+export type ListingVibeOptions = {
+  idf?: ListingTermIdf;
+  keywordWeight: number;
+  visualCueWeight: number;
+  // Extra weight per additional word in a phrase term.
+  phraseBonus: number;
+  // Overrides keyed by lowercased term, applied on top of the kind weight.
+  termWeights: Record<string, number>;
+};
+
+export const DEFAULT_LISTING_VIBE_OPTIONS: ListingVibeOptions = {
+  keywordWeight: 1,
+  visualCueWeight: 1.5,
+  phraseBonus: 0.25,
+  // Common words that show up in listings regardless of style.
+  termWeights: {
+    art: 0.6,
+    bold: 0.6,
+    color: 0.5,
+    glass: 0.6,
+    green: 0.5,
+    grand: 0.6,
+    tech: 0.6,
+    warm: 0.5,
+    wood: 0.6,
+  },
+};
+
+const NEGATORS = new Set(["no", "not", "without", "never", "non", "lacks", "lacking", "nor"]);
+const NEGATION_WINDOW = 3;
+
+type Token = { text: string; clause: number };
+
+function normalizeToken(token: string): string {
+  if (token.length > 4 && token.endsWith("ies")) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith("s") && !/(ss|us|is)$/.test(token)) return token.slice(0, -1);
+  return token;
+}
+
+// Splits text into normalized word tokens, tagging each with its clause so
+// negation never reaches across punctuation.
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  text
+    .toLowerCase()
+    .split(/[.,;:!?()\[\]{}"\n]+/)
+    .forEach((clause, index) => {
+      for (const word of clause.split(/[^a-z0-9]+/)) {
+        if (word) tokens.push({ text: normalizeToken(word), clause: index });
+      }
+    });
+  return tokens;
+}
+
+function isNegated(tokens: Token[], start: number, length: number): boolean {
+  const clause = tokens[start].clause;
+  for (let i = start - 1; i >= Math.max(0, start - NEGATION_WINDOW); i--) {
+    if (tokens[i].clause !== clause) break;
+    if (NEGATORS.has(tokens[i].text)) return true;
+  }
+  // "carpet-free", "neon free"
+  const next = tokens[start + length];
+  return !!next && next.clause === clause && next.text === "free";
+}
+
+function findOccurrences(tokens: Token[], term: string[]): { hits: number; negated: number } {
+  let hits = 0;
+  let negated = 0;
+  for (let i = 0; i + term.length <= tokens.length; i++) {
+    let match = true;
+    for (let j = 0; j < term.length; j++) {
+      if (tokens[i + j].text !== term[j] || tokens[i + j].clause !== tokens[i].clause) {
+        match = false;
+        break;
+      }
+    }
+    if (!match) continue;
+    if (isNegated(tokens, i, term.length)) negated += 1;
+    else hits += 1;
+  }
+  return { hits, negated };
+}
+
+function tokenizeInput(input: ListingVibeInput): Token[][] {
+  return [input.description || "", input.photosText || "", JSON.stringify(input.structured || {})].map(tokenize);
+}
+
+function countTerm(segments: Token[][], term: string[]): { hits: number; negated: number } {
+  let hits = 0;
+  let negated = 0;
+  for (const tokens of segments) {
+    const found = findOccurrences(tokens, term);
+    hits += found.hits;
+    negated += found.negated;
+  }
+  return { hits, negated };
+}
+
+export function registryTerms(registry: VibeRegistry): string[] {
+  const terms = new Set<string>();
+  for (const vibe of registry.vibes) {
+    const def = registry.definitions[vibe];
+    if (!def) continue;
+    for (const term of [...def.keywords, ...def.visualCues]) terms.add(term.toLowerCase());
+  }
+  return Array.from(terms);
+}
+
+// Smoothed IDF over a corpus of listings, so terms that appear in most
+// listings in the market count for less than distinctive ones.
+export function buildListingTermIdf(
+  documents: ListingVibeInput[],
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): ListingTermIdf {
+  const terms = registryTerms(registry).map((term) => ({ term, tokens: tokenize(term).map((t) => t.text) }));
+  const documentFrequency = new Map<string, number>();
+  for (const document of documents) {
+    const segments = tokenizeInput(document);
+    for (const { term, tokens } of terms) {
+      if (tokens.length === 0) continue;
+      const { hits, negated } = countTerm(segments, tokens);
+      if (hits + negated > 0) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const total = documents.length;
+  return Object.fromEntries(
+    terms.map(({ term }) => [
+      term,
+      Math.round((Math.log((1 + total) / (1 + (documentFrequency.get(term) || 0))) + 1) * 1000) / 1000,
+    ])
+  );
+}
+
+export function computeListingVibeVector(
+  input: ListingVibeInput,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY,
+  options: Partial<ListingVibeOptions> = {}
+): ListingVibeResult {
+  const resolved = { ...DEFAULT_LISTING_VIBE_OPTIONS, ...options };
+  const segments = tokenizeInput(input);
+
+  const rawScores: VibeVector = Object.fromEntries(registry.vibes.map((v) => [v, 0]));
+  const rationale: ListingVibeResult["rationale"] = [];
+
+  for (const vibe of registry.vibes) {
+    const def = registry.definitions[vibe];
+    if (!def) continue;
+    const terms = [
+      ...def.keywords.map((term) => ({ term, weight: resolved.keywordWeight })),
+      ...def.visualCues.map((term) => ({ term, weight: resolved.visualCueWeight })),
+    ];
+
+    let score = 0;
+    const matched: Array<{ term: string; contribution: number }> = [];
+    const negated: string[] = [];
+    for (const { term, weight } of terms) {
+      const key = term.toLowerCase();
+      const tokens = tokenize(term).map((t) => t.text);
+      if (tokens.length === 0) continue;
+      const found = countTerm(segments, tokens);
+      if (found.negated > 0 && found.hits === 0) negated.push(term);
+      if (found.hits === 0) continue;
+
+      // Sublinear term frequency so repeated words don't swamp the vector.
+      const tf = 1 + Math.log(found.hits);
+      const termWeight =
+        weight * (1 + resolved.phraseBonus * (tokens.length - 1)) * (resolved.termWeights[key] ?? 1);
+      const contribution = tf * termWeight * (resolved.idf?.[key] ?? 1);
+      score += contribution;
+      matched.push({ term, contribution });
+    }
+
+    score = Math.max(0.01, score);
     rawScores[vibe] = score;
-    rationale.push({ vibe, matched: matched.slice(0, 8), score: Math.round(score * 100) / 100 });
+    rationale.push({
+      vibe,
+      matched: matched
+        .sort((a, b) => b.contribution - a.contribution)
+        .slice(0, 8)
+        .map((m) => m.term),
+      negated: negated.slice(0, 8),
+      score: Math.round(score * 100) / 100,
+    });
   }
 
   const total = Object.values(rawScores).reduce((sum, n) => sum + n, 0) || 1;
-  const vibeVector = Object.fromEntries(
-    VIBES.map((v) => [v, Math.round((rawScores[v] / total) * 1000) / 1000])
-  ) as Record<Vibe, number>;
-
-  const topVibes = [...VIBES]
-    .map((v) => ({ vibe: v, score: Math.round(vibeVector[v] * 1000) / 1000 }))
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 3);
+  const vibeVector: VibeVector = Object.fromEntries(
+    registry.vibes.map((v) => [v, Math.round((rawScores[v] / total) * 1000) / 1000])
+  );
 
   return {
     vibeVector,
-    topVibes,
+    topVibes: rankTopVibes(vibeVector, registry),
     rationale: rationale.sort((a, b) => b.score - a.score).slice(0, 3),
     algorithmVersion: LISTING_VIBE_ALGORITHM_VERSION,
   };
 }
+
+function rankTopVibes(vector: VibeVector, registry: VibeRegistry): Array<{ vibe: string; score: number }> {
+  return [...registry.vibes]
+    .map((v) => ({ vibe: v, score: Math.round((vector[v] || 0) * 1000) / 1000 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3);
+}
+
+// Blends the text vector with per-photo distributions. Photos are averaged by
+// their own confidence, and the photo share shrinks when the tagger was unsure
+// across the board.
+export function blendListingVibeVector(
+  text: ListingVibeResult,
+  photos: PhotoVibeSignal[],
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY,
+  weights: VibeEnsembleWeights = DEFAULT_VIBE_ENSEMBLE_WEIGHTS
+): ListingVibeResult {
+  const usable = photos.filter((p) => p.confidence > 0);
+  const confidenceTotal = usable.reduce((sum, p) => sum + p.confidence, 0);
+  if (usable.length === 0 || confidenceTotal <= 0) return text;
+
+  const photoWeight = Math.max(0, weights.photo) * (confidenceTotal / usable.length);
+  const textWeight = Math.max(0, weights.text);
+  const totalWeight = photoWeight + textWeight;
+  if (totalWeight <= 0) return text;
+
+  const blended: VibeVector = Object.fromEntries(
+    registry.vibes.map((vibe) => {
+      const photoScore = usable.reduce((sum, p) => sum + (p.vibeVector[vibe] || 0) * p.confidence, 0) / confidenceTotal;
+      return [vibe, (textWeight * (text.vibeVector[vibe] || 0) + photoWeight * photoScore) / totalWeight];
+    })
+  );
+  const total = Object.values(blended).reduce((sum, n) => sum + n, 0) || 1;
+  const vibeVector: VibeVector = Object.fromEntries(
+    registry.vibes.map((v) => [v, Math.round((blended[v] / total) * 1000) / 1000])
+  );
+
+  return { ...text, vibeVector, topVibes: rankTopVibes(vibeVector, registry) };
+}
@@ -0,0 +1,55 @@
+import crypto from "crypto";
+import { DEFAULT_VIBE_REGISTRY, type VibeRegistry } from "@shared/tasteAlgorithm";
+import { storage } from "./storage";
+import {
+  LISTING_VIBE_ALGORITHM_VERSION,
+  buildListingTermIdf,
+  registryTerms,
+  type ListingTermIdf,
+  type ListingVibeInput,
+} from "./listingVibeAlgorithm";
+
+// Snapshots never change once written, so they can be kept for the life of
+// the process.
+const snapshots = new Map<string, ListingTermIdf>();
+
+async function getCorpusDocuments(): Promise<ListingVibeInput[]> {
+  const listings = await storage.getListingCorpusText();
+  return listings.map((p) => ({
+    description: p.description,
+    photosText: (p.images || []).join(" "),
+  }));
+}
+
+function registryKey(registry: VibeRegistry): string {
+  return crypto.createHash("sha1").update(registryTerms(registry).sort().join("\n")).digest("hex").slice(0, 12);
+}
+
+// IDF for the current algorithm version. The first call for a registry takes
+// the snapshot from every stored listing plus any incoming batch that has not
+// been saved yet; later calls reuse it, so a listing scored today and one
+// scored next month under the same version see the same term weights.
+export async function getListingTermIdf(
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY,
+  pending: ListingVibeInput[] = []
+): Promise<ListingTermIdf> {
+  const key = registryKey(registry);
+  const id = `${LISTING_VIBE_ALGORITHM_VERSION}:${key}`;
+  const cached = snapshots.get(id);
+  if (cached) return cached;
+
+  let snapshot = await storage.getListingIdfSnapshot(id);
+  if (!snapshot) {
+    const documents = [...(await getCorpusDocuments()), ...pending];
+    snapshot = await storage.createListingIdfSnapshot({
+      id,
+      algorithmVersion: LISTING_VIBE_ALGORITHM_VERSION,
+      registryKey: key,
+      idf: buildListingTermIdf(documents, registry),
+      documentCount: documents.length,
+    });
+    console.log(`[ListingVibeCorpus] Froze IDF ${id} over ${documents.length} listing(s)`);
+  }
+  snapshots.set(id, snapshot.idf);
+  return snapshot.idf;
+}
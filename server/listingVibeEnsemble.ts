@@ -0,0 +1,71 @@
+import { DEFAULT_VIBE_REGISTRY, type VibeRegistry } from "@shared/tasteAlgorithm";
+import type { ListingPhoto } from "@shared/schema";
+import { classifyPhotoVibeDistribution, type PhotoVibeClassification } from "./geminiTagger";
+import {
+  blendListingVibeVector,
+  computeListingVibeVector,
+  type ListingTermIdf,
+  type ListingVibeInput,
+  type ListingVibeResult,
+  type PhotoVibeSignal,
+} from "./listingVibeAlgorithm";
+import { getVibeEnsembleMaxPhotos, getVibeEnsembleWeights } from "./tasteConfig";
+
+export type ListingVibeEnsemble = ListingVibeResult & {
+  photos: PhotoVibeClassification[];
+};
+
+// Text vector blended with a vibe distribution for each listing photo.
+// Photos are classified one at a time to stay inside the tagger's rate limit.
+export async function computeListingVibeEnsemble(
+  input: ListingVibeInput,
+  photoUrls: string[],
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY,
+  options: { idf?: ListingTermIdf } = {}
+): Promise<ListingVibeEnsemble> {
+  const text = computeListingVibeVector(input, registry, { idf: options.idf });
+
+  const photos: PhotoVibeClassification[] = [];
+  for (const url of Array.from(new Set(photoUrls)).slice(0, getVibeEnsembleMaxPhotos())) {
+    const classified = await classifyPhotoVibeDistribution(url, registry);
+    if (classified) photos.push(classified);
+  }
+
+  return { ...blendListingVibeVector(text, photos, registry, getVibeEnsembleWeights()), photos };
+}
+
+// Same blend using photo classifications already stored in listing_photos,
+// for recomputes that should not call the tagger again.
+export function computeListingVibeFromStoredPhotos(
+  input: ListingVibeInput,
+  photos: ListingPhoto[],
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY,
+  options: { idf?: ListingTermIdf } = {}
+): ListingVibeResult & { photos: PhotoVibeSignal[] } {
+  const signals = photos
+    .filter((p) => p.vibeVector && p.confidence != null)
+    .map((p) => ({ vibeVector: p.vibeVector!, confidence: p.confidence! }));
+  const text = computeListingVibeVector(input, registry, { idf: options.idf });
+  return { ...blendListingVibeVector(text, signals, registry, getVibeEnsembleWeights()), photos: signals };
+}
+
+export type PropertyVibeFields = {
+  vibeTag: string;
+  vibeVector: Record<string, number>;
+  vibeTop: Array<{ vibe: string; score: number }>;
+  vibeRationale: ListingVibeResult["rationale"];
+  vibeVersion: string;
+};
+
+// Property columns filled from an ensemble result. Listings with no keyword
+// hits and no classified photos stay Unclassified.
+export function toPropertyVibeFields(ensemble: ListingVibeResult & { photos: PhotoVibeSignal[] }): PropertyVibeFields {
+  const hasSignal = ensemble.photos.length > 0 || ensemble.rationale.some((r) => r.matched.length > 0);
+  return {
+    vibeTag: hasSignal ? ensemble.topVibes[0]?.vibe || "Unclassified" : "Unclassified",
+    vibeVector: ensemble.vibeVector,
+    vibeTop: ensemble.topVibes,
+    vibeRationale: ensemble.rationale,
+    vibeVersion: ensemble.algorithmVersion,
+  };
+}
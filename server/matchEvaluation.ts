@@ -0,0 +1,232 @@
+import {
+  DEFAULT_AVOIDANCE_PENALTY_WEIGHT,
+  DEFAULT_BUYER_VECTOR_OPTIONS,
+  computeBuyerVibeVector,
+  computeCompositeMatch,
+  computeVectorMatchScore,
+  inferBuyerCriteria,
+  type BuyerSwipeAction,
+  type BuyerVectorOptions,
+  type ListingFacts,
+  type MatchWeights,
+  type VibeVector,
+} from "@shared/tasteAlgorithm";
+import { DEFAULT_LEAD_MIN_CONFIDENCE } from "./tasteConfig";
+
+export type EvalEvent = {
+  buyerId: string;
+  listingId: number;
+  action: BuyerSwipeAction;
+  dwellMs: number;
+  createdAt: Date;
+};
+
+export type EvalListing = ListingFacts & {
+  id: number;
+  vector: Partial<VibeVector> | null;
+};
+
+type ScoringContext = {
+  history: EvalEvent[];
+  listings: Map<number, EvalListing>;
+  now: Date;
+};
+
+export type ScoredProfile = {
+  confidence: number;
+  score: (listing: EvalListing) => number;
+};
+
+// A scorer sees a buyer's history up to a cutoff and returns the profile's
+// confidence and a function that scores candidate listings 0-100.
+export type MatchScorer = (context: ScoringContext) => ScoredProfile;
+
+export type ScorerSettings = {
+  vectorOptions?: Partial<BuyerVectorOptions>;
+  avoidancePenaltyWeight?: number;
+  matchWeights?: MatchWeights;
+};
+
+function buildProfile(context: ScoringContext, options: Partial<BuyerVectorOptions>) {
+  return computeBuyerVibeVector(
+    context.history.map((event) => ({
+      action: event.action,
+      vibeVector: context.listings.get(event.listingId)?.vector ?? null,
+      dwellMs: event.dwellMs,
+      createdAt: event.createdAt,
+    })),
+    { ...options, now: context.now }
+  );
+}
+
+export function createScorers(settings: ScorerSettings = {}): Record<string, MatchScorer> {
+  const decayedOptions = { ...DEFAULT_BUYER_VECTOR_OPTIONS, ...settings.vectorOptions };
+  const penaltyWeight = settings.avoidancePenaltyWeight ?? DEFAULT_AVOIDANCE_PENALTY_WEIGHT;
+
+  return {
+    // Plain cosine over action-weighted counts: no recency, dwell, prior or avoidance.
+    cosine: (context) => {
+      const profile = buildProfile(context, { halfLifeDays: 0, dwellBaselineMs: 0, priorStrength: 0 });
+      return {
+        confidence: profile.confidence,
+        score: (listing) => computeVectorMatchScore(profile.vector, listing.vector, null, 0),
+      };
+    },
+    decayed: (context) => {
+      const profile = buildProfile(context, decayedOptions);
+      return {
+        confidence: profile.confidence,
+        score: (listing) =>
+          computeVectorMatchScore(profile.vector, listing.vector, profile.avoidanceVector, penaltyWeight),
+      };
+    },
+    composite: (context) => {
+      const profile = buildProfile(context, decayedOptions);
+      const criteria = inferBuyerCriteria(
+        context.history.map((event) => ({ action: event.action, listing: context.listings.get(event.listingId) }))
+      );
+      return {
+        confidence: profile.confidence,
+        score: (listing) =>
+          computeCompositeMatch({
+            vibeScore: computeVectorMatchScore(profile.vector, listing.vector, profile.avoidanceVector, penaltyWeight),
+            criteria,
+            listing,
+            weights: settings.matchWeights,
+          }).score,
+      };
+    },
+  };
+}
+
+export type EvaluationOptions = {
+  k: number;
+  horizon: number;
+  minHistory: number;
+  leadThreshold: number;
+  // Same gate as the swipe route: a high score only counts as a lead once the
+  // profile is this confident.
+  leadMinConfidence: number;
+};
+
+export const DEFAULT_EVALUATION_OPTIONS: EvaluationOptions = {
+  k: 5,
+  horizon: 10,
+  minHistory: 3,
+  leadThreshold: 85,
+  leadMinConfidence: DEFAULT_LEAD_MIN_CONFIDENCE,
+};
+
+export type EvaluationReport = {
+  scorer: string;
+  buyers: number;
+  windows: number;
+  precisionAtK: number | null;
+  auc: number | null;
+  predictedLeads: number;
+  leadPrecision: number | null;
+  saveRecall: number | null;
+};
+
+function isPositive(action: BuyerSwipeAction): boolean {
+  return action === "like" || action === "save";
+}
+
+// Probability a random positive outranks a random negative; ties count half.
+export function computeAuc(scored: Array<{ score: number; positive: boolean }>): number | null {
+  const positives = scored.filter((s) => s.positive);
+  const negatives = scored.filter((s) => !s.positive);
+  if (positives.length === 0 || negatives.length === 0) return null;
+  let wins = 0;
+  for (const p of positives) {
+    for (const n of negatives) {
+      if (p.score > n.score) wins += 1;
+      else if (p.score === n.score) wins += 0.5;
+    }
+  }
+  return wins / (positives.length * negatives.length);
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Number((values.reduce((sum, n) => sum + n, 0) / values.length).toFixed(4));
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Number((numerator / denominator).toFixed(4)) : null;
+}
+
+// Replays each buyer's events in time order. At every cutoff the scorer only
+// sees earlier events and ranks the listings the buyer actually swiped next.
+export function evaluateScorer(
+  name: string,
+  scorer: MatchScorer,
+  events: EvalEvent[],
+  listings: Map<number, EvalListing>,
+  options: Partial<EvaluationOptions> = {}
+): EvaluationReport {
+  const resolved: EvaluationOptions = { ...DEFAULT_EVALUATION_OPTIONS, ...options };
+  const byBuyer = new Map<string, EvalEvent[]>();
+  for (const event of events) {
+    if (!listings.has(event.listingId)) continue;
+    const list = byBuyer.get(event.buyerId) || [];
+    list.push(event);
+    byBuyer.set(event.buyerId, list);
+  }
+
+  const precisions: number[] = [];
+  const aucs: number[] = [];
+  let buyers = 0;
+  let windows = 0;
+  let predictedLeads = 0;
+  let saves = 0;
+  let savedLeads = 0;
+
+  for (const buyerEvents of Array.from(byBuyer.values())) {
+    buyerEvents.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    let evaluatedBuyer = false;
+
+    for (let cutoff = resolved.minHistory; cutoff < buyerEvents.length; cutoff += resolved.horizon) {
+      const history = buyerEvents.slice(0, cutoff);
+      const upcoming = buyerEvents.slice(cutoff, cutoff + resolved.horizon);
+      const profile = scorer({ history, listings, now: upcoming[0].createdAt });
+      const confident = profile.confidence >= resolved.leadMinConfidence;
+      const scored = upcoming.map((event) => ({
+        event,
+        score: profile.score(listings.get(event.listingId)!),
+        positive: isPositive(event.action),
+      }));
+
+      windows += 1;
+      evaluatedBuyer = true;
+
+      const ranked = [...scored].sort((a, b) => b.score - a.score);
+      const topK = ranked.slice(0, Math.min(resolved.k, ranked.length));
+      precisions.push(topK.filter((s) => s.positive).length / topK.length);
+
+      const auc = computeAuc(scored);
+      if (auc !== null) aucs.push(auc);
+
+      for (const entry of scored) {
+        const isLead = confident && entry.score >= resolved.leadThreshold;
+        const isSave = entry.event.action === "save";
+        if (isLead) predictedLeads += 1;
+        if (isSave) saves += 1;
+        if (isLead && isSave) savedLeads += 1;
+      }
+    }
+
+    if (evaluatedBuyer) buyers += 1;
+  }
+
+  return {
+    scorer: name,
+    buyers,
+    windows,
+    precisionAtK: mean(precisions),
+    auc: mean(aucs),
+    predictedLeads,
+    leadPrecision: ratio(savedLeads, predictedLeads),
+    saveRecall: ratio(savedLeads, saves),
+  };
+}
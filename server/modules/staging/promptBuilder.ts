@@ -1,4 +1,4 @@
-import { VIBE_DEFINITIONS } from "@shared/tasteAlgorithm";
+import { DEFAULT_VIBE_REGISTRY, type VibeRegistry } from "@shared/tasteAlgorithm";
 import { STAGING_CATALOG } from "./stagingCatalog";
 import type { RoomType, VibeId } from "./stagingTypes";
 
@@ -16,13 +16,18 @@ export function buildStagingPrompt({
   roomType,
   optionalRoomNotes,
   strictness = "normal",
+  registry = DEFAULT_VIBE_REGISTRY,
 }: {
   vibeId: VibeId;
   roomType: RoomType;
   optionalRoomNotes?: string;
   strictness?: "normal" | "strict";
+  registry?: VibeRegistry;
 }): { prompt: string; negativePrompt: string } {
-  const def = VIBE_DEFINITIONS[vibeId];
+  const def = registry.definitions[vibeId];
+  if (!def) {
+    throw new Error(`Unknown vibe: ${vibeId}`);
+  }
   const designPrinciples = def.psychology.join(", ");
   const furnitureKit = def.stagingStyleRules.do.join(", ");
   const visualKeywords = def.visualCues.join(", ");
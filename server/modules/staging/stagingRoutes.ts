@@ -1,10 +1,11 @@
 import crypto from "crypto";
-import type { Express, Request } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { eq } from "drizzle-orm";
 import { Storage } from "@google-cloud/storage";
 import { db } from "../../db";
+import { storage } from "../../storage";
+import { getVibeRegistry } from "../../vibeRegistry";
 import { stagingJobs } from "@shared/schema";
-import { VIBES } from "@shared/tasteAlgorithm";
 import { buildStagingPrompt } from "./promptBuilder";
 import { stagingQueue } from "./stagingQueue";
 import type { RoomType, VibeId } from "./stagingTypes";
@@ -16,9 +17,8 @@ type MultipartFile = {
 };
 
 const ROOM_TYPES: RoomType[] = ["living", "bed", "kitchen", "bath", "office", "dining", "other"];
-const VIBES_SET = new Set<string>(VIBES);
 
-async function parseMultipart(req: Request): Promise<{ fields: Record<string, string>; file: MultipartFile }> {
+async function parseMultipart(req: Request): Promise<{ fields: Record<string, string>; file: MultipartFile | null }> {
   const contentType = req.headers["content-type"] || "";
   const boundaryMatch = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
   if (!boundaryMatch) throw new Error("Missing multipart boundary");
@@ -62,11 +62,7 @@ async function parseMultipart(req: Request): Promise<{ fields: Record<string, st
     }
   }
 
-  if (!file || !file.data || file.data.length === 0) {
-    throw new Error("Image file is required");
-  }
-
-  return { fields, file };
+  return { fields, file: file && file.data.length > 0 ? file : null };
 }
 
 function mimeToExt(mimeType: string): string {
@@ -99,8 +95,29 @@ async function uploadInputImage(file: MultipartFile, batchId: string): Promise<s
   return `data:${file.mimeType};base64,${file.data.toString("base64")}`;
 }
 
+function requireAgent(req: Request, res: Response, next: NextFunction) {
+  if (!req.session?.agentId) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  next();
+}
+
+// The server fetches staging inputs itself, so a URL is only accepted when it
+// is a stored photo of a listing in the caller's organization.
+async function resolveListingPhotoUrl(
+  imageUrl: string,
+  listingId: number | null,
+  organizationId: number | null | undefined
+): Promise<string | null> {
+  if (listingId === null || !Number.isInteger(listingId)) return null;
+  const listing = await storage.getProperty(listingId);
+  if (!listing || !organizationId || listing.organizationId !== organizationId) return null;
+  const photos = await storage.getListingPhotos(listingId);
+  return photos.some((photo) => photo.url === imageUrl) ? imageUrl : null;
+}
+
 export function registerStagingRoutes(app: Express): void {
-  app.post("/api/staging/stage", async (req, res) => {
+  app.post("/api/staging/stage", requireAgent, async (req, res) => {
     try {
       const { fields, file } = await parseMultipart(req);
       const roomType = fields.roomType as RoomType;
@@ -109,13 +126,26 @@ export function registerStagingRoutes(app: Express): void {
       }
 
       const strictness = fields.strictness === "strict" ? "strict" : "normal";
-      const batchId = crypto.randomUUID();
-      const inputImageUrl = await uploadInputImage(file, batchId);
       const listingId = fields.listingId ? parseInt(fields.listingId, 10) : null;
+      // Listing photos are already hosted, so they can be staged by URL.
+      let listingPhotoUrl: string | null = null;
+      if (!file && fields.imageUrl) {
+        listingPhotoUrl = await resolveListingPhotoUrl(fields.imageUrl, listingId, req.session.organizationId);
+        if (!listingPhotoUrl) {
+          return res.status(400).json({ message: "imageUrl must be a photo of a listing in your organization" });
+        }
+      }
+      if (!file && !listingPhotoUrl) {
+        throw new Error("Image file is required");
+      }
+      const batchId = crypto.randomUUID();
+      const inputImageUrl = file ? await uploadInputImage(file, batchId) : listingPhotoUrl!;
       const agentId = fields.agentId || null;
       const buyerId = fields.buyerId || null;
       const roomNotes = fields.roomNotes || "";
-      let selectedVibes: VibeId[] = [...VIBES];
+      const registry = await getVibeRegistry(req.session?.organizationId);
+      const registeredVibes = new Set<string>(registry.vibes);
+      let selectedVibes: VibeId[] = [...registry.vibes];
       if (fields.vibes) {
         let parsed: unknown;
         try {
@@ -126,7 +156,7 @@ export function registerStagingRoutes(app: Express): void {
         if (!Array.isArray(parsed)) {
           return res.status(400).json({ message: "vibes must be an array" });
         }
-        if (!parsed.every((v) => typeof v === "string" && VIBES_SET.has(v))) {
+        if (!parsed.every((v) => typeof v === "string" && registeredVibes.has(v))) {
           return res.status(400).json({ message: "vibes contains invalid vibe id(s)" });
         }
         selectedVibes = parsed as VibeId[];
@@ -141,6 +171,7 @@ export function registerStagingRoutes(app: Express): void {
           roomType,
           optionalRoomNotes: roomNotes,
           strictness,
+          registry,
         });
 
         await db.insert(stagingJobs).values({
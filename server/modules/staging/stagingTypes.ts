@@ -1,6 +1,4 @@
-import type { Vibe } from "@shared/tasteAlgorithm";
-
-export type VibeId = Vibe;
+export type VibeId = string;
 
 export type RoomType =
   | "living"
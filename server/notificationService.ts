@@ -50,6 +50,38 @@ export async function sendEmail(to: string, subject: string, body: string): Prom
   }
 }
 
+// Sends a text through Twilio's REST API. Requires TWILIO_ACCOUNT_SID,
+// TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER.
+export async function sendSms(to: string, body: string): Promise<{ success: boolean; error?: string }> {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const fromNumber = process.env.TWILIO_FROM_NUMBER;
+  if (!accountSid || !authToken || !fromNumber) {
+    return { success: false, error: "sms_not_configured" };
+  }
+
+  try {
+    const res = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ To: to, From: fromNumber, Body: body }).toString(),
+    });
+    if (!res.ok) {
+      const detail = await res.text();
+      console.error(`[NotificationService] Twilio error ${res.status}: ${detail}`);
+      return { success: false, error: `SMS delivery failed (${res.status})` };
+    }
+    console.log(`[NotificationService] SMS sent to: ${to}`);
+    return { success: true };
+  } catch (error: any) {
+    console.error("[NotificationService] SMS send failed:", error);
+    return { success: false, error: error.message || "SMS service unavailable" };
+  }
+}
+
 export function buildMatchEmailHtml({
   userName,
   propertyTitle,
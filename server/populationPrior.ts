@@ -0,0 +1,31 @@
+import { computePopulationPrior, type BuyerSwipeAction, type VibeVector } from "@shared/tasteAlgorithm";
+import { storage } from "./storage";
+
+const CACHE_TTL_MS = 10 * 60_000;
+
+let cached: { prior: VibeVector | null; expiresAt: number } | null = null;
+
+export async function getPopulationPrior(): Promise<VibeVector | null> {
+  if (cached && cached.expiresAt > Date.now()) return cached.prior;
+
+  try {
+    const counts = await storage.getSwipeActionCounts();
+    const listings = await storage.getPropertiesByIds(Array.from(new Set(counts.map((c) => c.listingId))));
+    const vectors = new Map<number, unknown>(listings.map((p) => [p.id, p.vibeVector]));
+    const entries = counts.map((c) => {
+      const vibeVector = vectors.get(c.listingId);
+      return {
+        action: c.action as BuyerSwipeAction,
+        count: c.count,
+        vibeVector: vibeVector && typeof vibeVector === "object" ? (vibeVector as Partial<VibeVector>) : null,
+      };
+    });
+    const prior = computePopulationPrior(entries);
+    const hasSignal = Object.values(prior).some((v) => v > 0);
+    cached = { prior: hasSignal ? prior : null, expiresAt: Date.now() + CACHE_TTL_MS };
+    return cached.prior;
+  } catch (error: any) {
+    console.warn(`[PopulationPrior] Failed to compute prior: ${error?.message ?? error}`);
+    return null;
+  }
+}
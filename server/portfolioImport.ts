@@ -2,7 +2,12 @@ import type { Request } from "express";
 import { writeFileSync } from "node:fs";
 import path from "node:path";
 import { storage } from "./storage";
-import { computeListingVibeVector } from "./listingVibeAlgorithm";
+import type { ListingVibeInput } from "./listingVibeAlgorithm";
+import { computeListingVibeEnsemble, toPropertyVibeFields } from "./listingVibeEnsemble";
+import { getListingTermIdf } from "./listingVibeCorpus";
+import { saveListingPhotos } from "./listingPhotos";
+import { applyVibeOverride } from "./vibeOverrides";
+import { getVibeRegistryForAgent } from "./vibeRegistry";
 
 type ImportedListing = {
   title: string;
@@ -16,6 +21,20 @@ type ImportedListing = {
   sourceUrl: string | null;
 };
 
+function toVibeInput(listing: ImportedListing): ListingVibeInput {
+  return {
+    description: listing.description,
+    photosText: listing.photoUrls.join(" "),
+    structured: {
+      price: listing.price,
+      beds: listing.beds,
+      baths: listing.baths,
+      sqft: listing.sqft,
+      sourceUrl: listing.sourceUrl,
+    },
+  };
+}
+
 type ImportProgressUpdate = {
   stage: string;
   progress: number;
@@ -526,6 +545,8 @@ export async function runPortfolioImportJob(
     progress: 30,
     counts: { discovered, processed: 0, mediaDownloaded: 0, mediaTotal },
   });
+  const vibeRegistry = await getVibeRegistryForAgent(agentId);
+  const termIdf = await getListingTermIdf(vibeRegistry, sourceListings.map(toVibeInput));
 
   for (const listing of sourceListings) {
     try {
@@ -534,18 +555,11 @@ export async function runPortfolioImportJob(
       const existingByAddress = await storage.getPropertyByAgentAndLocation(agentId, listing.address);
       const existing = existingBySource || existingByAddress;
 
-      const vibe = computeListingVibeVector({
-        description: listing.description,
-        photosText: listing.photoUrls.join(" "),
-        structured: {
-          price: listing.price,
-          beds: listing.beds,
-          baths: listing.baths,
-          sqft: listing.sqft,
-          sourceUrl: listing.sourceUrl,
-        },
+      const vibe = await computeListingVibeEnsemble(toVibeInput(listing), listing.photoUrls, vibeRegistry, {
+        idf: termIdf,
       });
 
+      const vibeFields = await applyVibeOverride(existing, toPropertyVibeFields(vibe));
       const propertyPayload: any = {
         title: listing.title || listing.address,
         description: listing.description || "Imported portfolio listing",
@@ -557,21 +571,16 @@ export async function runPortfolioImportJob(
         images: listing.photoUrls,
         sourceUrl: listing.sourceUrl,
         agentId,
-        vibeTag: vibe.topVibes[0]?.vibe || "Unclassified",
-        vibe: vibe.topVibes[0]?.vibe || "Classicist",
-        vibeVector: vibe.vibeVector,
-        vibeTop: vibe.topVibes,
-        vibeRationale: vibe.rationale,
-        vibeVersion: vibe.algorithmVersion,
+        ...vibeFields,
+        vibe: vibeFields.vibeOverride?.vibes[0] || vibe.topVibes[0]?.vibe || "Classicist",
         status: "active",
         tags: [],
       };
 
-      if (existing) {
-        await storage.updateProperty(existing.id, propertyPayload);
-      } else {
-        await storage.createProperty(propertyPayload);
-      }
+      const saved = existing
+        ? await storage.updateProperty(existing.id, propertyPayload)
+        : await storage.createProperty(propertyPayload);
+      if (saved) await saveListingPhotos(saved.id, listing.photoUrls, vibe.photos);
       succeeded++;
     } catch {
       failedCount++;
@@ -4,16 +4,49 @@ import path from "path";
 import crypto from "crypto";
 import { storage } from "./storage";
 import { db } from "./db";
-import { insertPropertySchema, insertLeadSchema, swipeSchema, loginSchema, signupSchema, sendVerificationSchema, verifyCodeSchema, verificationCodes } from "@shared/schema";
+import { insertPropertySchema, insertLeadSchema, swipeSchema, loginSchema, signupSchema, sendVerificationSchema, verifyCodeSchema, verificationCodes, buyerCriteriaSchema, insertVibeDefinitionSchema, vibeOverrideRequestSchema, listingCopyRequestSchema, saveListingCopyVariantSchema, savedHomeNoteSchema, savedHomeOrderSchema, buyerClaimStartSchema, buyerClaimVerifySchema, type Buyer, type ListingCopyVariant, type SavedHome, type ListingPhoto, type Property } from "@shared/schema";
 import { eq, and, gt } from "drizzle-orm";
 import { sendEmail, buildMatchEmailHtml } from "./notificationService";
 import { classifyPropertyImage } from "./geminiTagger";
+import { computeListingVibeEnsemble, toPropertyVibeFields } from "./listingVibeEnsemble";
+import { getListingTermIdf } from "./listingVibeCorpus";
+import { pickHeroPhoto, pickStagingPhoto, saveListingPhotos } from "./listingPhotos";
+import { LISTING_VIBE_ALGORITHM_VERSION } from "./listingVibeAlgorithm";
+import { applyVibeOverride, clearVibeOverride, pinListingVibes } from "./vibeOverrides";
+import { copyTargetFromTopVibes, generateListingCopy } from "./listingCopy";
+import { removeSavedHome } from "./savedHomes";
+import { undoLastSwipe } from "./swipeUndo";
+import { createTasteShare, getPublicTasteShare, renderTasteCardPng, requestOrigin, revokeTasteShare, toPublicTasteShare } from "./tasteShare";
+import { claimBuyerIdentity, leadContactFields, maskBuyerContact, normalizeBuyerContact, sendBuyerClaimCode } from "./buyerIdentity";
+import {
+  pauseVibeBackfill,
+  resumeInterruptedVibeBackfills,
+  resumeVibeBackfill,
+  startVibeBackfill,
+} from "./vibeBackfill";
 import { importFromUrl } from "./webScraper";
-import { VIBES, VIBE_DEFINITIONS, computeMatchScore, computeTasteScore, computeBuyerVibeVector, computeVectorMatchScore, type Vibe, type BuyerSwipeAction } from "@shared/tasteAlgorithm";
+import { DEFAULT_VIBE_REGISTRY, computeMatchScore, computeBuyerVibeVector, computeVectorMatchScore, computeCompositeMatch, explainBuyerVibeVector, explainVectorMatch, computeJointMatchScore, computeListingSimilarity, createSeededRandom, rankFeedCandidates, inferBuyerCriteria, isRegisteredVibe, type BuyerSwipeAction, type BuyerCriteria, type CompositeMatchResult, type FeedPickReason, type VibeRegistry, type VibeVector } from "@shared/tasteAlgorithm";
 import { parseCsvMultipart, runPortfolioImportJob, csvRowsToListings, URL_IMPORT_FAIL_MESSAGE } from "./portfolioImport";
 import { runUrlImportPipeline, type ListingDraft, type UrlImportMode, type UrlImportReasonCode } from "./modules/import/urlImportStrategies";
 import { registerStagingRoutes } from "./modules/staging/stagingRoutes";
 import { getDbReadinessState, isDbReady } from "./dbReadiness";
+import { getAvoidancePenaltyWeight, getFeedCandidatePoolSize, getFeedRankingOptions, getLeadMinConfidence, getMatchWeights } from "./tasteConfig";
+import {
+  buildTalkTrack,
+  getListingVector,
+  getSessionBuyerId,
+  getTopVibeFromProperty,
+  loadBuyerHistory,
+  loadBuyerProfile,
+  resolveBuyerVectorOptions,
+  resolveSessionBuyerId,
+  toBuyerVibeEvents,
+  toLegacyTasteCounts,
+} from "./buyerProfiles";
+import { getVibeRegistry, getVibeRegistryMap, invalidateVibeRegistry } from "./vibeRegistry";
+import { recordTasteHistory } from "./tasteHistory";
+import { buildHouseholdLeadFields, createHouseholdInvite, joinHousehold, loadHousehold, loadHouseholdForBuyer } from "./households";
+import { getCollaborativeRecommendations, recordCollaborativeSwipe } from "./collaborativeRecommender";
 import bcrypt from "bcryptjs";
 import { z } from "zod";
 
@@ -157,21 +190,129 @@ const buyerSwipeSchema = z.object({
   listingId: z.number().int().positive(),
   action: z.enum(["like", "nope", "save", "skip"]),
   dwellMs: z.number().int().min(0).max(3600000).default(0),
+  criteria: buyerCriteriaSchema.optional(),
 });
 
-function getTopVibeFromProperty(property: any): Vibe | null {
-  const fromTop = Array.isArray(property?.vibeTop) ? property.vibeTop[0]?.vibe : null;
-  if (fromTop && VIBES.includes(fromTop as Vibe)) return fromTop as Vibe;
-  if (property?.vibeTag && VIBES.includes(property.vibeTag as Vibe)) return property.vibeTag as Vibe;
-  return null;
+const commaList = z
+  .string()
+  .transform((value) => value.split(",").map((item) => item.trim()).filter(Boolean));
+
+const listingFeedQuerySchema = z.object({
+  buyerId: z.string().trim().min(1).optional(),
+  cursor: z.string().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(50).default(20),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  bedrooms: z.coerce.number().int().min(0).optional(),
+  location: z.string().trim().min(1).optional(),
+  state: z.string().trim().min(1).optional(),
+  vibe: z.string().trim().min(1).optional(),
+  tags: commaList.optional(),
+  // "listing" attaches the full property row for decks that render more than
+  // the card fields.
+  include: z.literal("listing").optional(),
+});
+
+// "recent" decks page newest-first by id. "ranked" decks replay the same
+// ranking from the time the first page was built and page by offset.
+type FeedCursor =
+  | { kind: "recent"; beforeId: number }
+  | { kind: "ranked"; asOf: number; maxId: number; offset: number };
+
+function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeFeedCursor(raw: string): FeedCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    const isInt = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+    if (parsed?.kind === "recent" && isInt(parsed.beforeId)) {
+      return { kind: "recent", beforeId: parsed.beforeId };
+    }
+    if (parsed?.kind === "ranked" && isInt(parsed.asOf) && isInt(parsed.maxId) && isInt(parsed.offset)) {
+      return { kind: "ranked", asOf: parsed.asOf, maxId: parsed.maxId, offset: parsed.offset };
+    }
+    return null;
+  } catch {
+    return null;
+  }
 }
 
-function getListingVector(property: any): Partial<Record<Vibe, number>> | null {
-  const raw = property?.vibeVector;
-  if (raw && typeof raw === "object") return raw as Partial<Record<Vibe, number>>;
-  const top = getTopVibeFromProperty(property);
-  if (!top) return null;
-  return Object.fromEntries(VIBES.map((v) => [v, v === top ? 1 : 0])) as Partial<Record<Vibe, number>>;
+const householdCreateSchema = z.object({
+  name: z.string().trim().max(80).optional(),
+});
+
+const householdJoinSchema = z.object({
+  code: z.string().trim().min(1),
+});
+
+const vibeDefinitionBodySchema = insertVibeDefinitionSchema.omit({ organizationId: true, name: true });
+
+function toListingCard(p: Property, registry?: VibeRegistry) {
+  const topVibe = getTopVibeFromProperty(p, registry);
+  const vibeTags = Array.isArray(p.vibeTop)
+    ? p.vibeTop.slice(0, 3).map((v: any) => v?.vibe).filter(Boolean)
+    : topVibe
+      ? [topVibe]
+      : [];
+  return {
+    id: p.id,
+    address: p.location,
+    price: p.price,
+    beds: p.bedrooms,
+    baths: p.bathrooms,
+    sqft: p.sqft,
+    heroPhotoUrl: (p.images && p.images[0]) || null,
+    topVibe: topVibe || "Unclassified",
+    vibeTags: vibeTags as string[],
+  };
+}
+
+// Saved homes joined with their listings, in the buyer's priority order.
+async function toSavedHomeItems(saved: SavedHome[]) {
+  const listings = await storage.getPropertiesByIds(saved.map((s) => s.listingId));
+  const byId = new Map(listings.map((p) => [p.id, p]));
+  return saved
+    .filter((s) => byId.has(s.listingId))
+    .map((s) => ({
+      listingId: s.listingId,
+      note: s.note,
+      priority: s.priority,
+      savedAt: s.createdAt,
+      listing: byId.get(s.listingId)!,
+    }));
+}
+
+// Contact details are masked unless this session verified them itself:
+// /api/buyer/init binds any known buyerId, so holding the id is not proof of
+// identity.
+function toBuyerIdentity(buyerId: string | null, buyer: Buyer | undefined, revealContact: boolean) {
+  return {
+    buyerId,
+    name: revealContact ? buyer?.name ?? null : null,
+    email: buyer?.email ? (revealContact ? buyer.email : maskBuyerContact("email", buyer.email)) : null,
+    phone: buyer?.phone ? (revealContact ? buyer.phone : maskBuyerContact("phone", buyer.phone)) : null,
+    emailVerifiedAt: buyer?.emailVerifiedAt ?? null,
+    phoneVerifiedAt: buyer?.phoneVerifiedAt ?? null,
+    contactConsentAt: buyer?.contactConsentAt ?? null,
+  };
+}
+
+// Resolves the session buyer and checks they belong to household :id.
+// Non-members get a 404 so household ids cannot be probed.
+async function requireHouseholdMember(req: Request, res: Response): Promise<string | null> {
+  const buyerId = getSessionBuyerId(req);
+  if (!buyerId) {
+    res.status(401).json({ message: "No buyer session" });
+    return null;
+  }
+  const membership = await storage.getHouseholdMembership(buyerId);
+  if (!membership || membership.householdId !== req.params.id) {
+    res.status(404).json({ message: "Household not found" });
+    return null;
+  }
+  return buyerId;
 }
 
 function isSuperAdmin(req: Request): boolean {
@@ -200,6 +341,7 @@ export async function registerRoutes(
   app: Express
 ): Promise<Server> {
   registerStagingRoutes(app);
+  void resumeInterruptedVibeBackfills();
 
   app.use("/api", (req, res, next) => {
     if (isDbReady()) {
@@ -488,12 +630,24 @@ export async function registerRoutes(
         Object.keys(filters).length > 0 ? filters as any : undefined
       );
 
-      const tasteProfile = req.session?.tasteProfile;
-      if (tasteProfile && Object.keys(tasteProfile).length > 0 && !req.session?.agentId) {
-        results = results.map((p) => {
-          const tasteScore = computeTasteScore(tasteProfile, p.vibeTag);
-          return { ...p, tasteScore };
-        }).sort((a, b) => (b as any).tasteScore - (a as any).tasteScore);
+      // Only buyers with a session id have history; a legacy fallback id
+      // would just cost an empty history query.
+      const sessionBuyerId = req.session?.buyerId;
+      if (sessionBuyerId && !req.session.agentId) {
+        const { events, profile } = await loadBuyerProfile(sessionBuyerId);
+        if (events.length > 0) {
+          const registries = await getVibeRegistryMap(results.map((p) => p.organizationId));
+          const penaltyWeight = getAvoidancePenaltyWeight();
+          results = results.map((p) => {
+            const tasteScore = computeVectorMatchScore(
+              profile.vector,
+              getListingVector(p, registries.get(p.organizationId ?? 0)),
+              profile.avoidanceVector,
+              penaltyWeight
+            );
+            return { ...p, tasteScore };
+          }).sort((a, b) => (b as any).tasteScore - (a as any).tasteScore);
+        }
       }
 
       res.json(results);
@@ -502,6 +656,70 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/properties/:id/similar", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const limit = Math.min(50, Math.max(1, parseInt(String(req.query.limit || "10"), 10) || 10));
+      const base = await storage.getProperty(id);
+      if (!base) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const scope = String(req.query.scope || "");
+      const filters: { agentId?: string; organizationId?: number } = {};
+      if (scope === "agent") filters.agentId = base.agentId;
+      else if (typeof req.query.agentId === "string" && req.query.agentId) filters.agentId = req.query.agentId;
+      if (scope === "organization" && base.organizationId) filters.organizationId = base.organizationId;
+      else if (req.query.organizationId) {
+        const organizationId = parseInt(String(req.query.organizationId), 10);
+        if (Number.isInteger(organizationId)) filters.organizationId = organizationId;
+      }
+
+      const candidates = await storage.getFeedListings(
+        { agentId: filters.agentId, organizationId: filters.organizationId },
+        { limit: getFeedCandidatePoolSize() }
+      );
+      const registries = await getVibeRegistryMap([base.organizationId, ...candidates.map((p) => p.organizationId)]);
+      const baseInput = {
+        vector: getListingVector(base, registries.get(base.organizationId ?? 0)),
+        price: base.price,
+        bedrooms: base.bedrooms,
+      };
+
+      const items = candidates
+        .filter((p) => p.id !== base.id)
+        .map((p) => {
+          const registry = registries.get(p.organizationId ?? 0);
+          const similarity = computeListingSimilarity(baseInput, {
+            vector: getListingVector(p, registry),
+            price: p.price,
+            bedrooms: p.bedrooms,
+          });
+          return { ...toListingCard(p, registry), similarity: similarity.score, components: similarity.components };
+        })
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit);
+
+      res.json({ listingId: base.id, items });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/properties/:id/photos", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const property = await storage.getProperty(id);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      const photos = await storage.getListingPhotos(id);
+      res.json({ listingId: id, photos, stagingCandidate: pickStagingPhoto(photos) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/properties/:id", async (req, res) => {
     try {
       const property = await storage.getProperty(parseInt(req.params.id));
@@ -516,30 +734,110 @@ export async function registerRoutes(
 
   app.get("/api/listings/feed", async (req, res) => {
     try {
-      const page = Math.max(1, parseInt(String(req.query.page || "1"), 10) || 1);
-      const pageSize = Math.min(50, Math.max(1, parseInt(String(req.query.pageSize || "20"), 10) || 20));
-      const all = await storage.getProperties({ status: "active" });
-      const start = (page - 1) * pageSize;
-      const items = all.slice(start, start + pageSize).map((p) => {
-        const topVibe = getTopVibeFromProperty(p);
-        const vibeTags = Array.isArray(p.vibeTop)
-          ? p.vibeTop.slice(0, 3).map((v: any) => v?.vibe).filter(Boolean)
-          : topVibe
-            ? [topVibe]
-            : [];
+      const query = listingFeedQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.errors[0]?.message || "Invalid feed query" });
+      }
+      const { buyerId: requestedBuyerId, pageSize, cursor: rawCursor, include, ...filters } = query.data;
+      const buyerId = requestedBuyerId ?? req.session.buyerId;
+      const cursor = rawCursor ? decodeFeedCursor(rawCursor) : null;
+      if (rawCursor && !cursor) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const { events, listingMap } = buyerId ? await loadBuyerHistory(buyerId) : { events: [], listingMap: new Map() };
+      // A ranked deck is frozen at the moment its first page was built: the
+      // buyer profile, random seed and candidate pool all come from that point.
+      const asOf = cursor?.kind === "ranked" ? new Date(cursor.asOf) : new Date();
+      const rankedEvents = events.filter((e) => !e.createdAt || e.createdAt <= asOf);
+      const buyerProfile = rankedEvents.length > 0
+        ? computeBuyerVibeVector(toBuyerVibeEvents(rankedEvents, listingMap), await resolveBuyerVectorOptions())
+        : null;
+      const buyerTopVibe = buyerProfile?.topVibes.find((v) => v.score > 0)?.vibe ?? null;
+
+      let pageEntries: Array<{ listing: Property; reason?: FeedPickReason; score?: number }>;
+      let nextCursor: FeedCursor | null = null;
+      let registries: Map<number, VibeRegistry>;
+
+      if (buyerProfile && cursor?.kind !== "recent") {
+        const pool = await storage.getFeedListings(filters, {
+          excludeSwipedBy: buyerId,
+          swipedBefore: asOf,
+          maxId: cursor?.kind === "ranked" ? cursor.maxId : undefined,
+          limit: getFeedCandidatePoolSize(),
+        });
+        registries = await getVibeRegistryMap(pool.map((p) => p.organizationId));
+        const candidates = pool.map((listing) => {
+          const registry = registries.get(listing.organizationId ?? 0);
+          return {
+            item: listing,
+            vector: getListingVector(listing, registry),
+            topVibe: getTopVibeFromProperty(listing, registry),
+          };
+        });
+        const ranked = rankFeedCandidates(candidates, buyerProfile, {
+          ...getFeedRankingOptions(),
+          random: createSeededRandom(`${buyerId}:${asOf.getTime()}`),
+        });
+        const offset = cursor?.kind === "ranked" ? cursor.offset : 0;
+        // Swipes made since the deck was built are dropped from later pages.
+        const swipedSince = new Set(events.filter((e) => e.createdAt && e.createdAt > asOf).map((e) => e.listingId));
+        pageEntries = ranked
+          .slice(offset, offset + pageSize)
+          .filter((entry) => !swipedSince.has(entry.item.id))
+          .map((entry) => ({ listing: entry.item, reason: entry.reason, score: entry.score }));
+        if (offset + pageSize < ranked.length) {
+          nextCursor = {
+            kind: "ranked",
+            asOf: asOf.getTime(),
+            maxId: cursor?.kind === "ranked" ? cursor.maxId : pool[0].id,
+            offset: offset + pageSize,
+          };
+        } else if (pool.length >= getFeedCandidatePoolSize()) {
+          // The pool only holds the newest listings; once it is used up the
+          // deck carries on through older inventory in recency order.
+          nextCursor = { kind: "recent", beforeId: pool[pool.length - 1].id };
+        }
+      } else {
+        const rows = await storage.getFeedListings(filters, {
+          excludeSwipedBy: buyerId,
+          beforeId: cursor?.kind === "recent" ? cursor.beforeId : undefined,
+          limit: pageSize + 1,
+        });
+        const page = rows.slice(0, pageSize);
+        registries = await getVibeRegistryMap(page.map((p) => p.organizationId));
+        pageEntries = page.map((listing) => ({ listing }));
+        if (rows.length > pageSize) {
+          nextCursor = { kind: "recent", beforeId: page[page.length - 1].id };
+        }
+      }
+
+      const photosByListing = new Map<number, ListingPhoto[]>();
+      const copyByListing = new Map<number, ListingCopyVariant>();
+      if (buyerTopVibe) {
+        const pageIds = pageEntries.map((e) => e.listing.id);
+        const [photos, variants] = await Promise.all([
+          storage.getListingPhotosByPropertyIds(pageIds),
+          storage.getListingCopyVariantsForVibe(pageIds, buyerTopVibe),
+        ]);
+        for (const photo of photos) {
+          photosByListing.set(photo.propertyId, [...(photosByListing.get(photo.propertyId) || []), photo]);
+        }
+        for (const variant of variants) copyByListing.set(variant.propertyId, variant);
+      }
+      const items = pageEntries.map(({ listing: p, reason, score }) => {
+        const card = toListingCard(p, registries.get(p.organizationId ?? 0));
+        const hero = pickHeroPhoto(photosByListing.get(p.id) || [], buyerTopVibe);
+        const copy = copyByListing.get(p.id);
         return {
-          id: p.id,
-          address: p.location,
-          price: p.price,
-          beds: p.bedrooms,
-          baths: p.bathrooms,
-          sqft: p.sqft,
-          heroPhotoUrl: (p.images && p.images[0]) || null,
-          topVibe: topVibe || "Unclassified",
-          vibeTags,
+          ...card,
+          heroPhotoUrl: hero?.url ?? card.heroPhotoUrl,
+          ...(copy ? { copy: { vibe: copy.vibe, headline: copy.headline, description: copy.description } } : {}),
+          ...(reason ? { reason, matchScore: score } : {}),
+          ...(include === "listing" ? { listing: p } : {}),
         };
       });
-      res.json({ page, pageSize, items });
+      res.json({ pageSize, items, nextCursor: nextCursor ? encodeFeedCursor(nextCursor) : null });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -547,15 +845,20 @@ export async function registerRoutes(
 
   app.post("/api/buyer/init", async (req, res) => {
     try {
+      if (req.session.buyerId) {
+        return res.json({ buyerId: req.session.buyerId });
+      }
       const candidate = typeof req.body?.buyerId === "string" ? req.body.buyerId.trim() : "";
       if (candidate) {
         const existing = await storage.getBuyer(candidate);
         if (existing) {
+          req.session.buyerId = existing.id;
           return res.json({ buyerId: existing.id });
         }
       }
       const buyerId = crypto.randomUUID();
       await storage.createBuyer({ id: buyerId } as any);
+      req.session.buyerId = buyerId;
       res.status(201).json({ buyerId });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -575,31 +878,52 @@ export async function registerRoutes(
         await storage.createBuyer({ id: parsed.buyerId } as any);
       }
 
-      await storage.createSwipeEvent({
-        id: crypto.randomUUID(),
+      const swipeEventId = crypto.randomUUID();
+      const swipeEvent = await storage.createSwipeEvent({
+        id: swipeEventId,
         buyerId: parsed.buyerId,
         listingId: parsed.listingId,
         action: parsed.action,
         dwellMs: parsed.dwellMs || 0,
       } as any);
+      recordCollaborativeSwipe(swipeEvent);
+      if (parsed.action === "save") {
+        await storage.addSavedHome(parsed.buyerId, listing.id);
+      }
 
-      const events = await storage.getSwipeEventsByBuyer(parsed.buyerId);
-      const listingIds = Array.from(new Set(events.map((e) => e.listingId)));
-      const listings = await storage.getPropertiesByIds(listingIds);
-      const listingMap = new Map<number, any>(listings.map((p) => [p.id, p]));
+      const { events, listingMap } = await loadBuyerHistory(parsed.buyerId);
 
-      const buyerVibeEvents = events.map((event) => ({
-        action: event.action as BuyerSwipeAction,
-        vibe: getTopVibeFromProperty(listingMap.get(event.listingId)),
-      }));
-      const buyerProfile = computeBuyerVibeVector(buyerVibeEvents);
-      const listingVector = getListingVector(listing);
-      const matchScore = computeVectorMatchScore(buyerProfile.vector, listingVector);
+      const vibeRegistry = await getVibeRegistry(listing.organizationId);
+      const buyerProfile = computeBuyerVibeVector(
+        toBuyerVibeEvents(events, listingMap, vibeRegistry),
+        await resolveBuyerVectorOptions(),
+        vibeRegistry
+      );
+      const listingVector = getListingVector(listing, vibeRegistry);
+      const vibeScore = computeVectorMatchScore(
+        buyerProfile.vector,
+        listingVector,
+        buyerProfile.avoidanceVector,
+        getAvoidancePenaltyWeight()
+      );
+      const inferredCriteria = inferBuyerCriteria(
+        events
+          .filter((event) => event.id !== swipeEventId)
+          .map((event) => ({ action: event.action as BuyerSwipeAction, listing: listingMap.get(event.listingId) }))
+      );
+      const criteria: BuyerCriteria = { ...inferredCriteria, ...(parsed.criteria || {}) };
+      const matchBreakdown = computeCompositeMatch({
+        vibeScore,
+        criteria,
+        listing,
+        weights: getMatchWeights(),
+      });
+      const matchScore = matchBreakdown.score;
 
       const listingTopVibes = Array.isArray(listing.vibeTop) && listing.vibeTop.length > 0
         ? listing.vibeTop
         : (() => {
-            const top = getTopVibeFromProperty(listing);
+            const top = getTopVibeFromProperty(listing, vibeRegistry);
             return top ? [{ vibe: top, score: 1 }] : [];
           })();
       const buyerTopVibes = buyerProfile.topVibes;
@@ -609,19 +933,22 @@ export async function registerRoutes(
       let leadCreated = false;
       let hotLead = false;
 
-      if (parsed.action === "save" || matchScore >= 85) {
-        const existingLead = await storage.getLeadByBuyerAndProperty(parsed.buyerId, listing.id);
+      const leadMinConfidence = getLeadMinConfidence();
+      const confidentMatch = matchScore >= 85 && buyerProfile.confidence >= leadMinConfidence;
+      if (parsed.action === "save" || confidentMatch) {
+        const household = await loadHouseholdForBuyer(parsed.buyerId, vibeRegistry);
+        const existingLead = household
+          ? await storage.getLeadByHouseholdAndProperty(household.household.id, listing.id)
+          : await storage.getLeadByBuyerAndProperty(parsed.buyerId, listing.id);
         if (!existingLead) {
-          const vibeDef = topBuyerVibe ? VIBE_DEFINITIONS[topBuyerVibe] : null;
-          const talkTrack = topBuyerVibe && vibeDef
-            ? `This buyer is ${topBuyerVibe}. Pitch ${vibeDef.copyHook}. Show them listings that feel ${vibeDef.keywords.slice(0, 4).join(", ")}.`
-            : "This buyer is still emerging. Pitch based on clear style cues and price fit.";
-          const avoidList = topBuyerVibe && vibeDef ? vibeDef.forbiddenChanges : [];
+          const leadFields = household
+            ? buildHouseholdLeadFields(household, vibeRegistry)
+            : { ...buildTalkTrack(topBuyerVibe, vibeRegistry), householdId: null, memberAvoidLists: null };
+          const { talkTrack, avoidList } = leadFields;
 
           await storage.createLead({
             propertyId: listing.id,
-            name: "Anonymous Buyer",
-            phone: "N/A",
+            ...leadContactFields(buyer),
             agentId: listing.agentId || null,
             buyerId: parsed.buyerId,
             buyerVector: buyerProfile.vector as any,
@@ -629,8 +956,12 @@ export async function registerRoutes(
             topBuyerVibes: buyerTopVibes as any,
             topListingVibes: listingTopVibes as any,
             matchScore,
+            matchBreakdown: matchBreakdown as any,
             talkTrack,
             avoidList: avoidList as any,
+            householdId: leadFields.householdId,
+            memberAvoidLists: leadFields.memberAvoidLists as any,
+            swipeEventId,
           } as any);
 
           hotLead = matchScore >= 95;
@@ -649,13 +980,33 @@ export async function registerRoutes(
             }),
             priority: hotLead ? "critical" : "high",
             readStatus: false,
+            swipeEventId,
           });
         }
       }
 
+      let tasteDrift = null;
+      try {
+        tasteDrift = await recordTasteHistory({
+          buyerId: parsed.buyerId,
+          swipeCount: events.length,
+          profile: buyerProfile,
+          registry: vibeRegistry,
+          swipeEventId,
+        });
+      } catch (error: any) {
+        console.warn(`[TasteHistory] Failed to record history for ${parsed.buyerId}: ${error?.message ?? error}`);
+      }
+
       res.json({
         matchScore,
+        matchBreakdown,
+        tasteDrift,
+        buyerVector: buyerProfile.vector,
+        buyerRawVector: buyerProfile.rawVector,
+        buyerAvoidanceVector: buyerProfile.avoidanceVector,
         buyerTopVibes,
+        buyerConfidence: buyerProfile.confidence,
         listingTopVibes,
         leadCreated,
         hotLead: matchScore >= 95,
@@ -665,30 +1016,455 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/buyer/swipe/undo", async (req, res) => {
+    try {
+      // Undo deletes leads and voids agent notifications, so it only ever acts
+      // on the session's own buyer.
+      const buyerId = getSessionBuyerId(req);
+      if (!buyerId) return res.status(401).json({ message: "No buyer session" });
+      const requested = typeof req.body?.buyerId === "string" ? req.body.buyerId.trim() : "";
+      if (requested && requested !== buyerId) {
+        return res.status(403).json({ message: "Can only undo your own swipes" });
+      }
+
+      const result = await undoLastSwipe(buyerId);
+      if (result.status === "nothing") {
+        return res.status(404).json({ message: "No swipe to undo" });
+      }
+      if (result.status === "expired") {
+        return res.status(409).json({ message: "The last swipe is too old to undo", listingId: result.event.listingId });
+      }
+      res.json({
+        listingId: result.event.listingId,
+        action: result.event.action,
+        retractedLeadIds: result.retractedLeadIds,
+        voidedNotificationIds: result.voidedNotificationIds,
+        unsaved: result.unsaved,
+        driftReverted: result.driftReverted,
+        buyerVector: result.profile.vector,
+        buyerTopVibes: result.profile.topVibes,
+        buyerConfidence: result.profile.confidence,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/buyer/identity", async (req, res) => {
+    try {
+      const buyerId = getSessionBuyerId(req);
+      const buyer = buyerId ? await storage.getBuyer(buyerId) : undefined;
+      res.json(toBuyerIdentity(buyerId, buyer, !!buyerId && req.session.verifiedBuyerId === buyerId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/buyer/claim/start", async (req, res) => {
+    try {
+      const parsed = buyerClaimStartSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid contact" });
+      }
+      const destination = normalizeBuyerContact(parsed.data.channel, parsed.data.contact);
+      if (!destination) {
+        return res.status(400).json({ message: `Please provide a valid ${parsed.data.channel === "email" ? "email address" : "phone number"}` });
+      }
+
+      const buyerId = await resolveSessionBuyerId(req);
+      const result = await sendBuyerClaimCode(buyerId, parsed.data.channel, destination);
+      if (!result.success) {
+        console.error(`[BuyerIdentity] Failed to send ${parsed.data.channel} code for ${buyerId}: ${result.error}`);
+        return res.status(503).json({ message: "Could not send a verification code. Please try again later." });
+      }
+      res.json({ success: true, channel: parsed.data.channel });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/buyer/claim/verify", async (req, res) => {
+    try {
+      const parsed = buyerClaimVerifySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid verification request" });
+      }
+      const destination = normalizeBuyerContact(parsed.data.channel, parsed.data.contact);
+      const buyerId = getSessionBuyerId(req);
+      if (!destination || !buyerId) {
+        return res.status(400).json({ message: "Invalid or expired verification code" });
+      }
+
+      const claimed = await claimBuyerIdentity(buyerId, {
+        channel: parsed.data.channel,
+        destination,
+        code: parsed.data.code,
+        name: parsed.data.name,
+      });
+      if (!claimed) {
+        return res.status(400).json({ message: "Invalid or expired verification code" });
+      }
+      req.session.consumerContact = destination;
+      req.session.verifiedBuyerId = buyerId;
+      res.json({ ...toBuyerIdentity(buyerId, claimed.buyer, true), updatedLeadIds: claimed.leads.map((l) => l.id) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/buyer/profile", async (req, res) => {
     try {
       const buyerId = String(req.query.buyerId || "");
       if (!buyerId) return res.status(400).json({ message: "buyerId is required" });
 
-      const events = await storage.getSwipeEventsByBuyer(buyerId);
-      const listingIds = Array.from(new Set(events.map((e) => e.listingId)));
-      const listings = await storage.getPropertiesByIds(listingIds);
-      const listingMap = new Map<number, any>(listings.map((p) => [p.id, p]));
-
-      const buyerVibeEvents = events.map((event) => ({
-        action: event.action as BuyerSwipeAction,
-        vibe: getTopVibeFromProperty(listingMap.get(event.listingId)),
-      }));
-      const profile = computeBuyerVibeVector(buyerVibeEvents);
+      // An org's custom vibes are only for that org's agents; everyone else
+      // gets the built-in registry.
+      const requestedOrg = req.query.organizationId ? parseInt(String(req.query.organizationId), 10) : null;
+      const organizationId =
+        requestedOrg !== null &&
+        Number.isInteger(requestedOrg) &&
+        req.session?.agentId &&
+        (isSuperAdmin(req) || req.session.organizationId === requestedOrg)
+          ? requestedOrg
+          : null;
+      const vibeRegistry = await getVibeRegistry(organizationId);
+      const { profile } = await loadBuyerProfile(buyerId, vibeRegistry);
       res.json(profile);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  app.get("/api/buyer/recommendations", async (req, res) => {
+    try {
+      const requested = typeof req.query.buyerId === "string" ? req.query.buyerId.trim() : "";
+      const buyerId = requested || getSessionBuyerId(req);
+      if (!buyerId) return res.status(400).json({ message: "buyerId is required" });
+      const limit = Math.min(50, Math.max(1, parseInt(String(req.query.limit || "12"), 10) || 12));
+
+      const recommendations = await getCollaborativeRecommendations(buyerId, { limit: limit * 2 });
+      const listings = await storage.getPropertiesByIds(recommendations.map((r) => r.listingId));
+      const listingMap = new Map(listings.map((p) => [p.id, p]));
+      const items = recommendations
+        .map((r) => {
+          const listing = listingMap.get(r.listingId);
+          if (!listing || listing.status !== "active") return null;
+          return { ...listing, score: r.score, supporters: r.supporters };
+        })
+        .filter((item): item is NonNullable<typeof item> => item !== null)
+        .slice(0, limit);
+
+      res.json({ buyerId, items });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/buyer/saved-homes", async (req, res) => {
+    try {
+      const buyerId = getSessionBuyerId(req);
+      if (!buyerId) return res.json({ buyerId: null, items: [] });
+      res.json({ buyerId, items: await toSavedHomeItems(await storage.getSavedHomes(buyerId)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/buyer/saved-homes", async (req, res) => {
+    try {
+      const listingId = Number(req.body?.listingId);
+      if (!Number.isInteger(listingId) || listingId <= 0) {
+        return res.status(400).json({ message: "listingId is required" });
+      }
+      const listing = await storage.getProperty(listingId);
+      if (!listing) {
+        return res.status(404).json({ message: "Listing not found" });
+      }
+      const buyerId = await resolveSessionBuyerId(req);
+      const saved = await storage.addSavedHome(buyerId, listingId);
+      const [item] = await toSavedHomeItems([saved]);
+      res.status(201).json(item);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/buyer/saved-homes/order", async (req, res) => {
+    try {
+      const buyerId = getSessionBuyerId(req);
+      if (!buyerId) return res.status(401).json({ message: "No buyer session" });
+      const parsed = savedHomeOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid order" });
+      }
+      const saved = await storage.reorderSavedHomes(buyerId, parsed.data.listingIds);
+      res.json({ buyerId, items: await toSavedHomeItems(saved) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/buyer/saved-homes/:listingId", async (req, res) => {
+    try {
+      const buyerId = getSessionBuyerId(req);
+      if (!buyerId) return res.status(401).json({ message: "No buyer session" });
+      const parsed = savedHomeNoteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid note" });
+      }
+      const saved = await storage.updateSavedHomeNote(
+        buyerId,
+        parseInt(req.params.listingId as string),
+        parsed.data.note || null
+      );
+      if (!saved) {
+        return res.status(404).json({ message: "Saved home not found" });
+      }
+      const [item] = await toSavedHomeItems([saved]);
+      res.json(item);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/buyer/saved-homes/:listingId", async (req, res) => {
+    try {
+      const buyerId = getSessionBuyerId(req);
+      if (!buyerId) return res.status(401).json({ message: "No buyer session" });
+      const remaining = await removeSavedHome(buyerId, parseInt(req.params.listingId as string));
+      if (!remaining) {
+        return res.status(404).json({ message: "Saved home not found" });
+      }
+      res.json({ buyerId, items: await toSavedHomeItems(remaining) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/buyer/taste-shares", async (req, res) => {
+    try {
+      const buyerId = getSessionBuyerId(req);
+      const shares = buyerId ? await storage.getActiveTasteSharesByBuyer(buyerId) : [];
+      const origin = requestOrigin(req);
+      res.json({ items: shares.map((share) => toPublicTasteShare(share, origin)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/buyer/taste-shares", async (req, res) => {
+    try {
+      const buyerId = await resolveSessionBuyerId(req);
+      const share = await createTasteShare(buyerId);
+      if (!share) {
+        return res.status(409).json({ message: "Swipe on a few homes before sharing your taste" });
+      }
+      res.status(201).json(toPublicTasteShare(share, requestOrigin(req)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/buyer/taste-shares/:shareId", async (req, res) => {
+    try {
+      const buyerId = getSessionBuyerId(req);
+      if (!buyerId) return res.status(401).json({ message: "No buyer session" });
+      if (!(await revokeTasteShare(req.params.shareId as string, buyerId))) {
+        return res.status(404).json({ message: "Share not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/taste/:shareId", async (req, res) => {
+    try {
+      const share = await getPublicTasteShare(req.params.shareId as string);
+      if (!share) return res.status(404).json({ message: "Share not found" });
+      res.json(toPublicTasteShare(share, requestOrigin(req)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/taste/:shareId/preview.png", async (req, res) => {
+    try {
+      const share = await getPublicTasteShare(req.params.shareId as string);
+      if (!share) return res.status(404).json({ message: "Share not found" });
+      const png = renderTasteCardPng(share, req.get("host") || "taste");
+      // Short max-age so a revoked link stops unfurling soon after.
+      res.set({ "Content-Type": "image/png", "Cache-Control": "public, max-age=300" }).send(png);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/buyer/:id/taste-history", requireAgent, async (req, res) => {
+    try {
+      const buyerId = req.params.id as string;
+      const snapshots = await storage.getBuyerProfileSnapshots(buyerId);
+      res.json({
+        buyerId,
+        snapshots: snapshots.map((snapshot) => ({
+          id: snapshot.id,
+          swipeCount: snapshot.swipeCount,
+          vector: snapshot.vector,
+          topVibes: snapshot.topVibes,
+          confidence: snapshot.confidence,
+          trigger: snapshot.trigger,
+          createdAt: snapshot.createdAt,
+        })),
+        driftEvents: snapshots
+          .filter((snapshot) => snapshot.trigger === "drift")
+          .map((snapshot) => ({
+            from: snapshot.driftFrom,
+            to: snapshot.driftTo,
+            swipeCount: snapshot.swipeCount,
+            createdAt: snapshot.createdAt,
+          })),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/households", async (req, res) => {
+    try {
+      const parsed = householdCreateSchema.parse(req.body ?? {});
+      const buyerId = await resolveSessionBuyerId(req);
+      const existing = await storage.getHouseholdMembership(buyerId);
+      if (existing) {
+        return res.status(409).json({ message: "You already belong to a household", householdId: existing.householdId });
+      }
+      const household = await storage.createHousehold({ id: crypto.randomUUID(), name: parsed.name || null });
+      if (!(await storage.addHouseholdMember(household.id, buyerId))) {
+        return res.status(409).json({ message: "You already belong to a household" });
+      }
+      res.status(201).json(household);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/households/join", async (req, res) => {
+    try {
+      const parsed = householdJoinSchema.parse(req.body);
+      const buyerId = await resolveSessionBuyerId(req);
+      const result = await joinHousehold(parsed.code, buyerId);
+      if (result.status === "invalid") {
+        return res.status(400).json({ message: "Invalid or expired invite" });
+      }
+      if (result.status === "already_member") {
+        return res.status(409).json({ message: "You already belong to a household", householdId: result.householdId });
+      }
+      res.status(201).json({ householdId: result.householdId });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/households/:id/invites", async (req, res) => {
+    try {
+      const buyerId = await requireHouseholdMember(req, res);
+      if (!buyerId) return;
+      const invite = await createHouseholdInvite(req.params.id as string, buyerId);
+      res.status(201).json({ code: invite.code, expiresAt: invite.expiresAt });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Members can only take themselves out of a household.
+  app.delete("/api/households/:id/members/me", async (req, res) => {
+    try {
+      const buyerId = await requireHouseholdMember(req, res);
+      if (!buyerId) return;
+      await storage.removeHouseholdMember(req.params.id as string, buyerId);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/households/:id", async (req, res) => {
+    try {
+      const buyerId = await requireHouseholdMember(req, res);
+      if (!buyerId) return;
+      const context = await loadHousehold(req.params.id as string);
+      if (!context) {
+        return res.status(404).json({ message: "Household not found" });
+      }
+      res.json({
+        id: context.household.id,
+        name: context.household.name,
+        members: context.members.map((m) => ({
+          isYou: m.buyerId === buyerId,
+          topVibes: m.profile.topVibes,
+          confidence: m.profile.confidence,
+          avoidList: m.avoidList,
+        })),
+        combinedVector: context.combinedVector,
+        topVibes: context.topVibes,
+        compatibility: {
+          ...context.compatibility,
+          // Pairs are reported by member position rather than buyer id.
+          pairs: context.compatibility.pairs.map((pair) => ({
+            ...pair,
+            a: context.members.findIndex((m) => m.buyerId === pair.a),
+            b: context.members.findIndex((m) => m.buyerId === pair.b),
+          })),
+        },
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/households/:id/recommendations", async (req, res) => {
+    try {
+      const buyerId = await requireHouseholdMember(req, res);
+      if (!buyerId) return;
+      const limit = Math.min(50, Math.max(1, parseInt(String(req.query.limit || "20"), 10) || 20));
+      const context = await loadHousehold(req.params.id as string);
+      if (!context) {
+        return res.status(404).json({ message: "Household not found" });
+      }
+      if (context.members.length === 0) {
+        return res.json({ householdId: context.household.id, items: [] });
+      }
+
+      const penaltyWeight = getAvoidancePenaltyWeight();
+      const listings = await storage.getFeedListings({}, { limit: getFeedCandidatePoolSize() });
+      const registries = await getVibeRegistryMap(listings.map((p) => p.organizationId));
+      const items = listings
+        .map((listing) => {
+          const registry = registries.get(listing.organizationId ?? 0);
+          const listingVector = getListingVector(listing, registry);
+          const memberScores = context.members.map((m) => ({
+            isYou: m.buyerId === buyerId,
+            score: computeVectorMatchScore(m.profile.vector, listingVector, m.profile.avoidanceVector, penaltyWeight),
+          }));
+          return {
+            ...toListingCard(listing, registry),
+            jointScore: computeJointMatchScore(memberScores.map((m) => m.score)),
+            memberScores,
+          };
+        })
+        .sort((a, b) => b.jointScore - a.jointScore)
+        .slice(0, limit);
+
+      res.json({ householdId: context.household.id, items });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/agent/leads", requireAgent, async (req, res) => {
     try {
-      const requested = typeof req.query.agentId === "string" ? req.query.agentId : null;
+      // Leads carry buyer contact details, so only super admins may read
+      // another agent's list.
+      const requested = typeof req.query.agentId === "string" && isSuperAdmin(req) ? req.query.agentId : null;
       const agentId = requested || String(req.session.agentId!);
       const rows = await storage.getAgentLeads(agentId);
       const propertyIds = rows.map((r) => r.propertyId).filter((v): v is number => typeof v === "number");
@@ -700,13 +1476,20 @@ export async function registerRoutes(
         return {
           id: lead.id,
           buyerId: lead.buyerId,
+          name: lead.name,
+          phone: lead.phone,
+          email: lead.email,
+          contactConsentAt: lead.contactConsentAt,
           listingId: lead.propertyId,
           address: listing?.location || null,
           matchScore: lead.matchScore,
+          matchBreakdown: lead.matchBreakdown || null,
           topBuyerVibes: lead.topBuyerVibes || [],
           topListingVibes: lead.topListingVibes || [],
           talkTrack: lead.talkTrack || "",
           avoidList: lead.avoidList || [],
+          householdId: lead.householdId || null,
+          memberAvoidLists: lead.memberAvoidLists || null,
           createdAt: lead.createdAt,
         };
       }));
@@ -715,17 +1498,120 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/match/explain", requireAgent, async (req, res) => {
+    try {
+      const buyerId = String(req.query.buyerId || "");
+      const listingId = parseInt(String(req.query.listingId || ""), 10);
+      if (!buyerId || !Number.isInteger(listingId)) {
+        return res.status(400).json({ message: "buyerId and listingId are required" });
+      }
+
+      const listing = await storage.getProperty(listingId);
+      if (!listing) {
+        return res.status(404).json({ message: "Listing not found" });
+      }
+      if (!isSuperAdmin(req) && listing.organizationId !== req.session.organizationId) {
+        return res.status(403).json({ message: "Forbidden: listing belongs to another organization" });
+      }
+
+      const lead = await storage.getLeadByBuyerAndProperty(buyerId, listingId);
+      const history = await loadBuyerHistory(buyerId);
+      const listingMap = history.listingMap;
+
+      // Replay the history as it stood when the lead's swipe scored it, so
+      // later swipes don't rewrite why the lead was created. Events are
+      // newest first.
+      const leadEventIndex = lead?.swipeEventId
+        ? history.events.findIndex((event) => event.id === lead.swipeEventId)
+        : -1;
+      const leadEvent = leadEventIndex >= 0 ? history.events[leadEventIndex] : undefined;
+      const events = leadEvent ? history.events.slice(leadEventIndex) : history.events;
+
+      const vibeRegistry = await getVibeRegistry(listing.organizationId);
+      const options = {
+        ...(await resolveBuyerVectorOptions()),
+        ...(leadEvent?.createdAt ? { now: leadEvent.createdAt } : {}),
+      };
+      const buyerEvents = toBuyerVibeEvents(events, listingMap, vibeRegistry);
+      const buyerProfile = computeBuyerVibeVector(buyerEvents, options, vibeRegistry);
+      const eventContributions = explainBuyerVibeVector(buyerEvents, options, vibeRegistry);
+      const listingVector = (lead?.listingVector as VibeVector | null) || getListingVector(listing, vibeRegistry);
+      const explanation = explainVectorMatch(
+        buyerProfile.vector,
+        listingVector,
+        buyerProfile.avoidanceVector,
+        getAvoidancePenaltyWeight()
+      );
+
+      // Criteria were inferred from the swipes before the lead's own, as in
+      // the swipe route; prefer the breakdown stored with the lead.
+      const criteria = inferBuyerCriteria(
+        events
+          .filter((event) => event.id !== leadEvent?.id)
+          .map((event) => ({ action: event.action as BuyerSwipeAction, listing: listingMap.get(event.listingId) }))
+      );
+      const matchBreakdown = (lead?.matchBreakdown as CompositeMatchResult | null) || computeCompositeMatch({
+        vibeScore: explanation.score,
+        criteria,
+        listing,
+        weights: getMatchWeights(),
+      });
+
+      const rationale = Array.isArray(listing.vibeRationale)
+        ? (listing.vibeRationale as Array<{ vibe: string; matched?: string[] }>)
+        : [];
+
+      const vibes = explanation.contributions.map((entry) => {
+        const swipes = eventContributions
+          .map(({ index, contributions }) => ({ event: events[index], weight: contributions[entry.vibe] || 0 }))
+          .filter(({ weight }) => weight !== 0)
+          .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+          .slice(0, 5)
+          .map(({ event, weight }) => ({
+            swipeEventId: event.id,
+            listingId: event.listingId,
+            address: listingMap.get(event.listingId)?.location || null,
+            action: event.action,
+            weight,
+            createdAt: event.createdAt,
+          }));
+        return {
+          ...entry,
+          listingKeywords: rationale.find((r) => r.vibe === entry.vibe)?.matched || [],
+          swipes,
+        };
+      });
+
+      res.json({
+        buyerId,
+        listingId,
+        asOf: leadEvent?.createdAt ?? null,
+        matchScore: matchBreakdown.score,
+        matchBreakdown,
+        vibeScore: explanation.score,
+        buyerConfidence: buyerProfile.confidence,
+        cosine: explanation.cosine,
+        avoidancePenalty: explanation.avoidancePenalty,
+        vibes,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.post("/api/properties", requireAgent, async (req, res) => {
     try {
       const parsed = insertPropertySchema.parse(req.body);
       parsed.organizationId = req.session.organizationId ?? null;
+      parsed.vibeOverride = null;
 
       const imageUrl = parsed.images && parsed.images.length > 0 ? parsed.images[0] : null;
       const tagSource = imageUrl || parsed.vibe || "modern";
-      const vibeTag = await classifyPropertyImage(tagSource);
+      const vibeTag = await classifyPropertyImage(tagSource, await getVibeRegistry(parsed.organizationId));
       parsed.vibeTag = vibeTag;
 
       const property = await storage.createProperty(parsed);
+      await saveListingPhotos(property.id, property.images);
       res.status(201).json(property);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
@@ -742,7 +1628,18 @@ export async function registerRoutes(
       if (!isSuperAdmin(req) && existing.organizationId !== req.session.organizationId) {
         return res.status(403).json({ message: "Forbidden: property belongs to another organization" });
       }
-      const property = await storage.updateProperty(id, req.body);
+      // Pins go through /vibe-override so they are logged and survive retags;
+      // while one is set, the vibe fields it controls can't be edited directly.
+      const { vibeOverride: _vibeOverride, ...changes } = req.body || {};
+      if (existing.vibeOverride) {
+        delete changes.vibeTag;
+        delete changes.vibeVector;
+        delete changes.vibeTop;
+      }
+      const property = await storage.updateProperty(id, changes);
+      if (property && Array.isArray(changes.images)) {
+        await saveListingPhotos(id, property.images);
+      }
       res.json(property);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
@@ -793,9 +1690,21 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/taste-profile", (req, res) => {
-    const profile = req.session.tasteProfile || {};
-    res.json({ tasteProfile: profile });
+  app.get("/api/taste-profile", async (req, res) => {
+    try {
+      const buyerId = getSessionBuyerId(req);
+      if (!buyerId) {
+        return res.json({ tasteProfile: {}, buyerId: null, profile: null });
+      }
+      const { events, listingMap, profile } = await loadBuyerProfile(buyerId);
+      res.json({
+        tasteProfile: toLegacyTasteCounts(events, listingMap),
+        buyerId,
+        profile,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
   });
 
   app.post("/api/consumer/contact", (req, res) => {
@@ -813,20 +1722,15 @@ export async function registerRoutes(
 
   app.get("/api/user/stats", async (req, res) => {
     try {
-      const sessionId = req.sessionID || "anonymous";
-      const rightSwipes = await storage.getRightSwipesBySession(sessionId);
-      const swipedPropertyIds = rightSwipes.map(s => s.propertyId);
+      const buyerId = getSessionBuyerId(req);
+      const { events, listingMap, profile } = buyerId
+        ? await loadBuyerProfile(buyerId)
+        : { events: [], listingMap: new Map<number, any>(), profile: null };
 
-      const vibeCounts: Record<string, number> = {};
-      let totalTagged = 0;
+      const positiveEvents = events.filter((e) => e.action === "like" || e.action === "save");
 
-      for (const swipe of rightSwipes) {
-        const property = await storage.getProperty(swipe.propertyId);
-        if (property?.vibeTag && property.vibeTag !== "Unclassified") {
-          vibeCounts[property.vibeTag] = (vibeCounts[property.vibeTag] || 0) + 1;
-          totalTagged++;
-        }
-      }
+      const vibeCounts = toLegacyTasteCounts(events, listingMap);
+      const totalTagged = Object.values(vibeCounts).reduce((sum, n) => sum + n, 0);
 
       const vibePercentages = Object.entries(vibeCounts)
         .map(([vibe, count]) => ({
@@ -839,25 +1743,34 @@ export async function registerRoutes(
       const topVibe = vibePercentages[0]?.vibe || null;
 
       let topPicks: any[] = [];
-      if (topVibe) {
-        const allProperties = await storage.getProperties({ status: "active" });
-        topPicks = allProperties
-          .filter(p => p.vibeTag === topVibe && !swipedPropertyIds.includes(p.id))
-          .slice(0, 6);
-      }
-
-      const savedHomes: any[] = [];
-      for (const id of swipedPropertyIds) {
-        const property = await storage.getProperty(id);
-        if (property) savedHomes.push(property);
+      if (buyerId && topVibe && profile) {
+        // Same pool and scoring as the feed and the /api/properties taste sort.
+        const candidates = await storage.getFeedListings({}, {
+          excludeSwipedBy: buyerId,
+          limit: getFeedCandidatePoolSize(),
+        });
+        const registries = await getVibeRegistryMap(candidates.map((p) => p.organizationId));
+        const penaltyWeight = getAvoidancePenaltyWeight();
+        topPicks = candidates
+          .map((p) => ({
+            p,
+            score: computeVectorMatchScore(
+              profile.vector,
+              getListingVector(p, registries.get(p.organizationId ?? 0)),
+              profile.avoidanceVector,
+              penaltyWeight
+            ),
+          }))
+          .sort((a, b) => b.score - a.score)
+          .slice(0, 6)
+          .map(({ p }) => p);
       }
 
       res.json({
         vibePercentages,
         topVibe,
         topPicks,
-        savedHomes,
-        totalSwipes: rightSwipes.length,
+        totalSwipes: positiveEvents.length,
       });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -872,31 +1785,58 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Property not found" });
       }
 
-      const tasteScore = computeTasteScore(req.session?.tasteProfile, property.vibeTag);
-      const matchScore = computeMatchScore(tasteScore);
+      const buyerId = await resolveSessionBuyerId(req);
+      const vibeRegistry = await getVibeRegistry(property.organizationId);
+      const { events, profile } = await loadBuyerProfile(buyerId, vibeRegistry);
+      const tasteScore = events.length > 0
+        ? computeVectorMatchScore(
+            profile.vector,
+            getListingVector(property, vibeRegistry),
+            profile.avoidanceVector,
+            getAvoidancePenaltyWeight()
+          )
+        : 0;
+      const matchBreakdown = computeCompositeMatch({
+        vibeScore: computeMatchScore(tasteScore),
+        criteria: parsed.criteria,
+        listing: property,
+        weights: getMatchWeights(),
+      });
+      const matchScore = matchBreakdown.score;
       const matchedTags = property.vibeTag && property.vibeTag !== "Unclassified"
         ? [property.vibeTag]
         : [];
 
-      const sessionId = req.sessionID || "anonymous";
-      await storage.createSwipe({
-        sessionId,
-        propertyId: parsed.propertyId,
-        direction: parsed.direction,
-        matchScore,
-      });
+      const swipeEvent = await storage.createSwipeEvent({
+        id: crypto.randomUUID(),
+        buyerId,
+        listingId: parsed.propertyId,
+        // This deck has no separate save gesture; a right swipe keeps the
+        // home, so it is recorded as a save and removing it later cancels it.
+        action: parsed.direction === "right" ? "save" : "nope",
+        dwellMs: 0,
+      } as any);
+      recordCollaborativeSwipe(swipeEvent);
+      if (parsed.direction === "right") {
+        await storage.addSavedHome(buyerId, property.id);
+      }
 
-      if (parsed.direction === "right" && property.vibeTag && property.vibeTag !== "Unclassified") {
-        if (!req.session.tasteProfile) {
-          req.session.tasteProfile = {};
-        }
-        const tag = property.vibeTag;
-        req.session.tasteProfile[tag] = (req.session.tasteProfile[tag] || 0) + 1;
+      try {
+        const updated = await loadBuyerProfile(buyerId, vibeRegistry);
+        await recordTasteHistory({
+          buyerId,
+          swipeCount: updated.events.length,
+          profile: updated.profile,
+          registry: vibeRegistry,
+          swipeEventId: swipeEvent.id,
+        });
+      } catch (error: any) {
+        console.warn(`[TasteHistory] Failed to record history for ${buyerId}: ${error?.message ?? error}`);
       }
 
       let notification = null;
 
-      if (parsed.direction === "right" && matchScore > 85) {
+      if (parsed.direction === "right" && matchScore > 85 && profile.confidence >= getLeadMinConfidence()) {
         const isCritical = matchScore > 95;
         const priority = isCritical ? "critical" : "high";
         const userName = parsed.userName || "A potential buyer";
@@ -920,6 +1860,7 @@ export async function registerRoutes(
           }),
           priority,
           readStatus: false,
+          swipeEventId: swipeEvent.id,
         });
 
         if (isCritical) {
@@ -939,7 +1880,7 @@ export async function registerRoutes(
         }
       }
 
-      res.json({ success: true, notification, matchScore, tasteScore, matchedTags });
+      res.json({ success: true, notification, matchScore, matchBreakdown, tasteScore, matchedTags });
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
@@ -994,16 +1935,174 @@ export async function registerRoutes(
       if (!isSuperAdmin(req) && existing.organizationId !== req.session.organizationId) {
         return res.status(403).json({ message: "Forbidden: property belongs to another organization" });
       }
-      const imageUrl = existing.images && existing.images.length > 0 ? existing.images[0] : null;
-      const tagSource = imageUrl || existing.vibe || "modern";
-      const vibeTag = await classifyPropertyImage(tagSource);
-      const updated = await storage.updateProperty(id, { vibeTag });
+      const registry = await getVibeRegistry(existing.organizationId);
+      const ensemble = await computeListingVibeEnsemble(
+        { description: existing.description, photosText: (existing.images || []).join(" ") },
+        existing.images || [],
+        registry,
+        { idf: await getListingTermIdf(registry) }
+      );
+      const updated = await storage.updateProperty(id, await applyVibeOverride(existing, toPropertyVibeFields(ensemble)));
+      await saveListingPhotos(id, existing.images || [], ensemble.photos);
       res.json(updated);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  app.put("/api/properties/:id/vibe-override", requireAgent, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      const existing = await storage.getProperty(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      if (!isSuperAdmin(req) && existing.organizationId !== req.session.organizationId) {
+        return res.status(403).json({ message: "Forbidden: property belongs to another organization" });
+      }
+      const parsed = vibeOverrideRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid vibe override" });
+      }
+      const registry = await getVibeRegistry(existing.organizationId);
+      const unknown = parsed.data.vibes.filter((vibe) => !isRegisteredVibe(vibe, registry));
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown vibe: ${unknown.join(", ")}` });
+      }
+      const updated = await pinListingVibes(existing, parsed.data, String(req.session.agentId));
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/properties/:id/vibe-override", requireAgent, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      const existing = await storage.getProperty(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      if (!isSuperAdmin(req) && existing.organizationId !== req.session.organizationId) {
+        return res.status(403).json({ message: "Forbidden: property belongs to another organization" });
+      }
+      res.json(await clearVibeOverride(existing));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/properties/:id/copy", requireAgent, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      const existing = await storage.getProperty(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      if (!isSuperAdmin(req) && existing.organizationId !== req.session.organizationId) {
+        return res.status(403).json({ message: "Forbidden: property belongs to another organization" });
+      }
+      const parsed = listingCopyRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid copy request" });
+      }
+      const registry = await getVibeRegistry(existing.organizationId);
+      let target: { vibe: string; accentVibe: string | null } | null;
+      if (parsed.data.buyerId) {
+        // Copy written to a buyer's taste reveals it, so only this org's leads qualify.
+        if (
+          !isSuperAdmin(req) &&
+          !(req.session.organizationId && await storage.isBuyerInOrganization(parsed.data.buyerId, req.session.organizationId))
+        ) {
+          return res.status(404).json({ message: "Buyer not found" });
+        }
+        const { profile } = await loadBuyerProfile(parsed.data.buyerId, registry);
+        target = copyTargetFromTopVibes(profile.topVibes);
+        if (!target) {
+          return res.status(400).json({ message: "Buyer has no taste signal yet" });
+        }
+      } else {
+        target = { vibe: parsed.data.vibe!, accentVibe: null };
+        if (!isRegisteredVibe(target.vibe, registry)) {
+          return res.status(400).json({ message: `Unknown vibe: ${target.vibe}` });
+        }
+      }
+      const copy = await generateListingCopy(existing, target, {
+        registry,
+        useLlm: parsed.data.provider !== "template",
+      });
+      res.json(copy);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/properties/:id/copy", requireAgent, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      const existing = await storage.getProperty(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      if (!isSuperAdmin(req) && existing.organizationId !== req.session.organizationId) {
+        return res.status(403).json({ message: "Forbidden: property belongs to another organization" });
+      }
+      res.json(await storage.getListingCopyVariants(id));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/properties/:id/copy/:vibe", requireAgent, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      const existing = await storage.getProperty(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      if (!isSuperAdmin(req) && existing.organizationId !== req.session.organizationId) {
+        return res.status(403).json({ message: "Forbidden: property belongs to another organization" });
+      }
+      const vibe = String(req.params.vibe);
+      if (!isRegisteredVibe(vibe, await getVibeRegistry(existing.organizationId))) {
+        return res.status(400).json({ message: `Unknown vibe: ${vibe}` });
+      }
+      const parsed = saveListingCopyVariantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid copy variant" });
+      }
+      const variant = await storage.upsertListingCopyVariant({
+        ...parsed.data,
+        propertyId: id,
+        vibe,
+        agentId: String(req.session.agentId),
+      });
+      res.json(variant);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/properties/:id/copy/:vibe", requireAgent, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      const existing = await storage.getProperty(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      if (!isSuperAdmin(req) && existing.organizationId !== req.session.organizationId) {
+        return res.status(403).json({ message: "Forbidden: property belongs to another organization" });
+      }
+      const deleted = await storage.deleteListingCopyVariant(id, String(req.params.vibe));
+      if (!deleted) {
+        return res.status(404).json({ message: "Copy variant not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.post("/api/portfolio/import/url", requireAgent, async (req, res) => {
     try {
       const bodyAgentId = typeof req.body?.agentId === "string" ? req.body.agentId.trim() : "";
@@ -1381,6 +2480,68 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/vibes", async (req, res) => {
+    try {
+      const registry = await getVibeRegistry(req.session?.organizationId);
+      res.json(registry.vibes.map((name) => ({
+        name,
+        builtIn: isRegisteredVibe(name, DEFAULT_VIBE_REGISTRY),
+        ...registry.definitions[name],
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/organizations/:id/vibes", requireAgent, async (req, res) => {
+    try {
+      const organizationId = parseInt(req.params.id as string);
+      if (!isSuperAdmin(req) && req.session.organizationId !== organizationId) {
+        return res.status(403).json({ message: "Forbidden: organization mismatch" });
+      }
+      const rows = await storage.getVibeDefinitions(organizationId);
+      res.json(rows);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/organizations/:id/vibes/:name", requireAdmin, async (req, res) => {
+    try {
+      const organizationId = parseInt(req.params.id as string);
+      if (!isSuperAdmin(req) && req.session.organizationId !== organizationId) {
+        return res.status(403).json({ message: "Forbidden: organization mismatch" });
+      }
+      const name = String(req.params.name).trim();
+      if (!name || name === "Unclassified") {
+        return res.status(400).json({ message: "A valid vibe name is required" });
+      }
+      const parsed = vibeDefinitionBodySchema.parse(req.body);
+      const row = await storage.upsertVibeDefinition({ ...parsed, organizationId, name });
+      invalidateVibeRegistry(organizationId);
+      res.json(row);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/organizations/:id/vibes/:name", requireAdmin, async (req, res) => {
+    try {
+      const organizationId = parseInt(req.params.id as string);
+      if (!isSuperAdmin(req) && req.session.organizationId !== organizationId) {
+        return res.status(403).json({ message: "Forbidden: organization mismatch" });
+      }
+      const deleted = await storage.deleteVibeDefinition(organizationId, String(req.params.name));
+      if (!deleted) {
+        return res.status(404).json({ message: "Vibe definition not found" });
+      }
+      invalidateVibeRegistry(organizationId);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/admin/users", requireAdmin, async (req, res) => {
     try {
       const allAgents = await storage.getAllAgents();
@@ -1421,6 +2582,118 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/admin/vibe-backfill", requireAdmin, async (_req, res) => {
+    try {
+      const [jobs, stale] = await Promise.all([
+        storage.getVibeBackfillJobs({ limit: 10 }),
+        storage.countStaleProperties(LISTING_VIBE_ALGORITHM_VERSION),
+      ]);
+      res.json({ currentVersion: LISTING_VIBE_ALGORITHM_VERSION, staleListings: stale, jobs });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/vibe-backfill", requireAdmin, async (req, res) => {
+    try {
+      const job = await startVibeBackfill(req.session.agentEmail ?? null);
+      res.status(202).json(job);
+    } catch (error: any) {
+      res.status(409).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/vibe-backfill/:id", requireAdmin, async (req, res) => {
+    try {
+      const job = await storage.getVibeBackfillJob(String(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Backfill job not found" });
+      }
+      const progress = job.total > 0 ? Math.min(100, Math.round((job.processed / job.total) * 100)) : 100;
+      res.json({ ...job, progress });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/vibe-backfill/:id/diffs", requireAdmin, async (req, res) => {
+    try {
+      const limit = Math.min(500, Math.max(1, parseInt(String(req.query.limit || "100"), 10) || 100));
+      const diffs = await storage.getVibeBackfillDiffs(String(req.params.id), {
+        movedOnly: req.query.moved === "true",
+        limit,
+      });
+      res.json(diffs);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/vibe-backfill/:id/pause", requireAdmin, async (req, res) => {
+    try {
+      const job = await pauseVibeBackfill(String(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Backfill job not found" });
+      }
+      res.json(job);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/vibe-backfill/:id/resume", requireAdmin, async (req, res) => {
+    try {
+      const job = await resumeVibeBackfill(String(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Backfill job not found" });
+      }
+      res.json(job);
+    } catch (error: any) {
+      res.status(409).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/vibe-overrides/report", requireAdmin, async (_req, res) => {
+    try {
+      const rows = await storage.getVibeOverrideStats();
+      const byVersion = new Map<string, {
+        algorithmVersion: string;
+        total: number;
+        disagreements: number;
+        bySource: Record<string, { total: number; disagreements: number }>;
+        byPredictedVibe: Record<string, { total: number; disagreements: number }>;
+      }>();
+      for (const row of rows) {
+        const version = row.algorithmVersion ?? "unversioned";
+        let entry = byVersion.get(version);
+        if (!entry) {
+          entry = { algorithmVersion: version, total: 0, disagreements: 0, bySource: {}, byPredictedVibe: {} };
+          byVersion.set(version, entry);
+        }
+        entry.total += row.total;
+        entry.disagreements += row.disagreements;
+        const source = (entry.bySource[row.source] ??= { total: 0, disagreements: 0 });
+        source.total += row.total;
+        source.disagreements += row.disagreements;
+        const predicted = (entry.byPredictedVibe[row.predictedTop ?? "Unclassified"] ??= { total: 0, disagreements: 0 });
+        predicted.total += row.total;
+        predicted.disagreements += row.disagreements;
+      }
+      const versions = Array.from(byVersion.values())
+        .map((entry) => ({
+          ...entry,
+          disagreementRate: entry.total > 0 ? Number((entry.disagreements / entry.total).toFixed(4)) : 0,
+        }))
+        .sort((a, b) =>
+          Number(b.algorithmVersion === LISTING_VIBE_ALGORITHM_VERSION) - Number(a.algorithmVersion === LISTING_VIBE_ALGORITHM_VERSION) ||
+          a.algorithmVersion.localeCompare(b.algorithmVersion)
+        );
+      res.json({ currentVersion: LISTING_VIBE_ALGORITHM_VERSION, versions });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.post("/api/webhooks/lemon-squeezy", async (req, res) => {
     try {
       const secret = process.env.LEMONSQUEEZY_WEBHOOK_SECRET;
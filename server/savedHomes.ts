@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import {
+  computeBuyerVibeVector,
+  computeCompositeMatch,
+  computeVectorMatchScore,
+  inferBuyerCriteria,
+  type BuyerSwipeAction,
+  type VibeRegistry,
+} from "@shared/tasteAlgorithm";
+import type { Lead, SavedHome } from "@shared/schema";
+import { storage } from "./storage";
+import { getListingVector, loadBuyerHistory, resolveBuyerVectorOptions, toBuyerVibeEvents } from "./buyerProfiles";
+import { recordCollaborativeSwipe } from "./collaborativeRecommender";
+import { getVibeRegistry } from "./vibeRegistry";
+import { getAvoidancePenaltyWeight, getMatchWeights } from "./tasteConfig";
+
+// Recomputes match data on every lead for the buyer after their profile has
+// changed outside a swipe, e.g. when a saved home is removed.
+export async function refreshBuyerLeads(buyerId: string): Promise<Lead[]> {
+  const leads = await storage.getLeadsByBuyer(buyerId);
+  if (leads.length === 0) return [];
+
+  const { events, listingMap } = await loadBuyerHistory(buyerId);
+  // Events come newest first, so the first action seen per listing is its latest.
+  const latestAction = new Map<number, string>();
+  for (const event of events) {
+    if (!latestAction.has(event.listingId)) latestAction.set(event.listingId, event.action);
+  }
+  const criteria = inferBuyerCriteria(
+    events
+      .filter((event) => latestAction.get(event.listingId) !== "unsave")
+      .map((event) => ({ action: event.action as BuyerSwipeAction, listing: listingMap.get(event.listingId) }))
+  );
+  const vectorOptions = await resolveBuyerVectorOptions();
+  const registries = new Map<number, VibeRegistry>();
+
+  const updated: Lead[] = [];
+  for (const lead of leads) {
+    const listing = await storage.getProperty(lead.propertyId);
+    if (!listing) continue;
+    const orgKey = listing.organizationId ?? 0;
+    let registry = registries.get(orgKey);
+    if (!registry) {
+      registry = await getVibeRegistry(listing.organizationId);
+      registries.set(orgKey, registry);
+    }
+
+    const profile = computeBuyerVibeVector(toBuyerVibeEvents(events, listingMap, registry), vectorOptions, registry);
+    const vibeScore = computeVectorMatchScore(
+      profile.vector,
+      getListingVector(listing, registry),
+      profile.avoidanceVector,
+      getAvoidancePenaltyWeight()
+    );
+    const matchBreakdown = computeCompositeMatch({ vibeScore, criteria, listing, weights: getMatchWeights() });
+    const saved = await storage.updateLead(lead.id, {
+      buyerVector: profile.vector as any,
+      topBuyerVibes: profile.topVibes as any,
+      matchScore: matchBreakdown.score,
+      matchBreakdown: matchBreakdown as any,
+    });
+    if (saved) updated.push(saved);
+  }
+  return updated;
+}
+
+// Takes a home off the buyer's list. When the home is there because of a
+// "save" swipe, the removal is recorded as an "unsave" swipe so the buyer
+// profile and any open leads reflect it; homes kept without a save signal
+// have nothing to cancel.
+export async function removeSavedHome(buyerId: string, listingId: number): Promise<SavedHome[] | null> {
+  const removed = await storage.deleteSavedHome(buyerId, listingId);
+  if (!removed) return null;
+
+  // Newest first, so this is the buyer's latest action on the listing.
+  const latest = (await storage.getSwipeEventsByBuyer(buyerId)).find((event) => event.listingId === listingId);
+  if (latest?.action !== "save") return storage.getSavedHomes(buyerId);
+
+  const event = await storage.createSwipeEvent({
+    id: crypto.randomUUID(),
+    buyerId,
+    listingId,
+    action: "unsave",
+    dwellMs: 0,
+  });
+  recordCollaborativeSwipe(event);
+  try {
+    await refreshBuyerLeads(buyerId);
+  } catch (error: any) {
+    console.warn(`[SavedHomes] Failed to refresh leads for ${buyerId}: ${error?.message ?? error}`);
+  }
+  return storage.getSavedHomes(buyerId);
+}
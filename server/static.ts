@@ -1,6 +1,7 @@
 import express, { type Express } from "express";
 import fs from "fs";
 import path from "path";
+import { injectTasteShareMeta } from "./tasteShare";
 
 export function serveStatic(app: Express) {
   const distPath = path.resolve(__dirname, "public");
@@ -13,7 +14,16 @@ export function serveStatic(app: Express) {
   app.use(express.static(distPath));
 
   // fall through to index.html if the file doesn't exist
-  app.use("/{*path}", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  app.use("/{*path}", async (req, res, next) => {
+    const indexPath = path.resolve(distPath, "index.html");
+    if (!req.path.startsWith("/taste/")) {
+      return res.sendFile(indexPath);
+    }
+    try {
+      const html = await fs.promises.readFile(indexPath, "utf-8");
+      res.status(200).set({ "Content-Type": "text/html" }).end(await injectTasteShareMeta(req, html));
+    } catch (e) {
+      next(e);
+    }
   });
 }
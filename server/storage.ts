@@ -1,6 +1,6 @@
-import { properties, leads, notifications, agents, organizations, syncRequests, swipes, stagingResults, importJobs, buyers, swipeEvents, type Property, type InsertProperty, type Lead, type InsertLead, type Notification, type InsertNotification, type Agent, type InsertAgent, type Organization, type InsertOrganization, type SyncRequest, type InsertSyncRequest, type Swipe, type InsertSwipe, type StagingResult, type InsertStagingResult, type ImportJob, type InsertImportJob, type Buyer, type InsertBuyer, type SwipeEvent, type InsertSwipeEvent } from "@shared/schema";
+import { properties, leads, notifications, agents, organizations, syncRequests, swipes, stagingResults, importJobs, buyers, swipeEvents, vibeDefinitions, buyerProfileSnapshots, households, householdMembers, householdInvites, listingPhotos, vibeBackfillJobs, vibeBackfillDiffs, listingIdfSnapshots, vibeOverrideExamples, listingCopyVariants, savedHomes, verificationCodes, tasteShares, type Property, type InsertProperty, type Lead, type InsertLead, type Notification, type InsertNotification, type Agent, type InsertAgent, type Organization, type InsertOrganization, type SyncRequest, type InsertSyncRequest, type Swipe, type InsertSwipe, type StagingResult, type InsertStagingResult, type ImportJob, type InsertImportJob, type Buyer, type InsertBuyer, type SwipeEvent, type InsertSwipeEvent, type VibeDefinitionRow, type InsertVibeDefinition, type BuyerProfileSnapshot, type InsertBuyerProfileSnapshot, type Household, type InsertHousehold, type HouseholdMember, type HouseholdInvite, type InsertHouseholdInvite, type ListingPhoto, type InsertListingPhoto, type VibeBackfillJob, type InsertVibeBackfillJob, type VibeBackfillDiff, type InsertVibeBackfillDiff, type ListingIdfSnapshot, type InsertListingIdfSnapshot, type VibeOverrideExample, type InsertVibeOverrideExample, type ListingCopyVariant, type InsertListingCopyVariant, type SavedHome, type VerificationCode, type InsertVerificationCode, type TasteShare, type InsertTasteShare } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, gte, lte, ilike, desc, sql, inArray } from "drizzle-orm";
+import { eq, and, gt, gte, lt, lte, ilike, asc, desc, sql, inArray, notInArray, notExists, isNull } from "drizzle-orm";
 
 export interface IStorage {
   getProperties(filters?: {
@@ -13,12 +13,27 @@ export interface IStorage {
     status?: string;
     organizationId?: number;
   }): Promise<Property[]>;
+  getFeedListings(
+    filters: {
+      minPrice?: number;
+      maxPrice?: number;
+      bedrooms?: number;
+      location?: string;
+      state?: string;
+      vibe?: string;
+      tags?: string[];
+      agentId?: string;
+      organizationId?: number;
+    },
+    options: { excludeSwipedBy?: string; swipedBefore?: Date; beforeId?: number; maxId?: number; limit: number }
+  ): Promise<Property[]>;
   getProperty(id: number): Promise<Property | undefined>;
   createProperty(data: InsertProperty): Promise<Property>;
   updateProperty(id: number, data: Partial<InsertProperty>): Promise<Property | undefined>;
   deleteProperty(id: number): Promise<boolean>;
   createLead(data: InsertLead): Promise<Lead>;
   getLeads(organizationId?: number): Promise<Lead[]>;
+  isBuyerInOrganization(buyerId: string, organizationId: number): Promise<boolean>;
   getNotifications(recipientId: string): Promise<Notification[]>;
   getUnreadNotificationCount(recipientId: string): Promise<number>;
   createNotification(data: InsertNotification): Promise<Notification>;
@@ -53,11 +68,75 @@ export interface IStorage {
   getPropertyByAgentAndLocation(agentId: string, location: string): Promise<Property | undefined>;
   createBuyer(data: InsertBuyer): Promise<Buyer>;
   getBuyer(id: string): Promise<Buyer | undefined>;
+  updateBuyer(id: string, data: Partial<InsertBuyer>): Promise<Buyer | undefined>;
+  createVerificationCode(data: InsertVerificationCode): Promise<VerificationCode>;
+  consumeVerificationCode(
+    destination: string,
+    code: string,
+    scope: { channel: string; buyerId: string }
+  ): Promise<VerificationCode | undefined>;
   createSwipeEvent(data: InsertSwipeEvent): Promise<SwipeEvent>;
   getSwipeEventsByBuyer(buyerId: string): Promise<SwipeEvent[]>;
+  deleteSwipeEvent(id: string): Promise<boolean>;
+  deleteLeadsBySwipeEvent(swipeEventId: string): Promise<Lead[]>;
+  voidNotificationsBySwipeEvent(swipeEventId: string): Promise<Notification[]>;
+  getSwipeActionCounts(): Promise<Array<{ listingId: number; action: string; count: number }>>;
+  getSwipeInteractions(options: { since: Date; limit: number }): Promise<Array<{ buyerId: string; listingId: number; action: string }>>;
   getPropertiesByIds(ids: number[]): Promise<Property[]>;
   getLeadByBuyerAndProperty(buyerId: string, propertyId: number): Promise<Lead | undefined>;
   getAgentLeads(agentId: string): Promise<Lead[]>;
+  getLeadsByBuyer(buyerId: string): Promise<Lead[]>;
+  updateLead(id: number, data: Partial<InsertLead>): Promise<Lead | undefined>;
+  updateLeadsByBuyer(buyerId: string, data: Partial<InsertLead>): Promise<Lead[]>;
+  createBuyerProfileSnapshot(data: InsertBuyerProfileSnapshot): Promise<BuyerProfileSnapshot | undefined>;
+  getLatestBuyerProfileSnapshot(buyerId: string): Promise<BuyerProfileSnapshot | undefined>;
+  getBuyerProfileSnapshots(buyerId: string): Promise<BuyerProfileSnapshot[]>;
+  deleteBuyerProfileSnapshotsBySwipeEvent(swipeEventId: string): Promise<BuyerProfileSnapshot[]>;
+  createHousehold(data: InsertHousehold): Promise<Household>;
+  getHousehold(id: string): Promise<Household | undefined>;
+  getHouseholdMembers(householdId: string): Promise<HouseholdMember[]>;
+  getHouseholdMembership(buyerId: string): Promise<HouseholdMember | undefined>;
+  addHouseholdMember(householdId: string, buyerId: string): Promise<HouseholdMember | undefined>;
+  createHouseholdInvite(data: InsertHouseholdInvite): Promise<HouseholdInvite>;
+  acceptHouseholdInvite(code: string, buyerId: string): Promise<HouseholdInvite | undefined>;
+  removeHouseholdMember(householdId: string, buyerId: string): Promise<boolean>;
+  getLeadByHouseholdAndProperty(householdId: string, propertyId: number): Promise<Lead | undefined>;
+  getVibeDefinitions(organizationId: number): Promise<VibeDefinitionRow[]>;
+  upsertVibeDefinition(data: InsertVibeDefinition): Promise<VibeDefinitionRow>;
+  deleteVibeDefinition(organizationId: number, name: string): Promise<boolean>;
+  getListingPhotos(propertyId: number): Promise<ListingPhoto[]>;
+  getListingPhotosByPropertyIds(propertyIds: number[]): Promise<ListingPhoto[]>;
+  replaceListingPhotos(propertyId: number, photos: Omit<InsertListingPhoto, "propertyId">[]): Promise<ListingPhoto[]>;
+  countStaleProperties(version: string): Promise<number>;
+  getStaleProperties(version: string, afterId: number, limit: number): Promise<Property[]>;
+  getListingCorpusText(): Promise<Array<Pick<Property, "description" | "images">>>;
+  getListingIdfSnapshot(id: string): Promise<ListingIdfSnapshot | undefined>;
+  createListingIdfSnapshot(data: InsertListingIdfSnapshot): Promise<ListingIdfSnapshot>;
+  getLeadsByProperty(propertyId: number): Promise<Lead[]>;
+  createVibeBackfillJob(data: InsertVibeBackfillJob): Promise<VibeBackfillJob>;
+  getVibeBackfillJob(id: string): Promise<VibeBackfillJob | undefined>;
+  getVibeBackfillJobs(options?: { statuses?: string[]; limit?: number }): Promise<VibeBackfillJob[]>;
+  updateVibeBackfillJob(id: string, data: Partial<InsertVibeBackfillJob>): Promise<VibeBackfillJob | undefined>;
+  createVibeBackfillDiff(data: InsertVibeBackfillDiff): Promise<VibeBackfillDiff>;
+  getVibeBackfillDiffs(jobId: string, options?: { movedOnly?: boolean; limit?: number }): Promise<VibeBackfillDiff[]>;
+  createVibeOverrideExample(data: InsertVibeOverrideExample): Promise<VibeOverrideExample>;
+  getVibeOverrideExamples(propertyId: number): Promise<VibeOverrideExample[]>;
+  getVibeOverrideStats(): Promise<
+    Array<{ algorithmVersion: string | null; source: string; predictedTop: string | null; total: number; disagreements: number }>
+  >;
+  getListingCopyVariants(propertyId: number): Promise<ListingCopyVariant[]>;
+  getListingCopyVariantsForVibe(propertyIds: number[], vibe: string): Promise<ListingCopyVariant[]>;
+  upsertListingCopyVariant(data: InsertListingCopyVariant): Promise<ListingCopyVariant>;
+  deleteListingCopyVariant(propertyId: number, vibe: string): Promise<boolean>;
+  getSavedHomes(buyerId: string): Promise<SavedHome[]>;
+  addSavedHome(buyerId: string, listingId: number): Promise<SavedHome>;
+  updateSavedHomeNote(buyerId: string, listingId: number, note: string | null): Promise<SavedHome | undefined>;
+  deleteSavedHome(buyerId: string, listingId: number): Promise<boolean>;
+  reorderSavedHomes(buyerId: string, listingIds: number[]): Promise<SavedHome[]>;
+  createTasteShare(data: InsertTasteShare): Promise<TasteShare>;
+  getTasteShare(id: string): Promise<TasteShare | undefined>;
+  getActiveTasteSharesByBuyer(buyerId: string): Promise<TasteShare[]>;
+  revokeTasteShare(id: string, buyerId: string): Promise<TasteShare | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -104,6 +183,54 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(properties);
   }
 
+  // Active listings for the buyer feed, newest first. Listings the buyer has
+  // already swiped are left out in SQL; `swipedBefore` limits that to swipes
+  // made before a ranked deck was first built, so its pool stays fixed.
+  async getFeedListings(
+    filters: {
+      minPrice?: number;
+      maxPrice?: number;
+      bedrooms?: number;
+      location?: string;
+      state?: string;
+      vibe?: string;
+      tags?: string[];
+      agentId?: string;
+      organizationId?: number;
+    },
+    options: { excludeSwipedBy?: string; swipedBefore?: Date; beforeId?: number; maxId?: number; limit: number }
+  ): Promise<Property[]> {
+    const conditions = [eq(properties.status, "active")];
+
+    if (filters.minPrice != null) conditions.push(gte(properties.price, filters.minPrice));
+    if (filters.maxPrice != null) conditions.push(lte(properties.price, filters.maxPrice));
+    if (filters.bedrooms != null) conditions.push(gte(properties.bedrooms, filters.bedrooms));
+    if (filters.location) conditions.push(ilike(properties.location, `%${filters.location}%`));
+    if (filters.state) conditions.push(ilike(properties.location, `%${filters.state}%`));
+    if (filters.agentId) conditions.push(eq(properties.agentId, filters.agentId));
+    if (filters.organizationId != null) conditions.push(eq(properties.organizationId, filters.organizationId));
+    if (filters.vibe) {
+      conditions.push(sql`coalesce(${properties.vibeTop}->0->>'vibe', ${properties.vibeTag}) = ${filters.vibe}`);
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      conditions.push(sql`${properties.tags}::jsonb @> ${JSON.stringify(filters.tags)}::jsonb`);
+    }
+    if (options.beforeId != null) conditions.push(lt(properties.id, options.beforeId));
+    if (options.maxId != null) conditions.push(lte(properties.id, options.maxId));
+    if (options.excludeSwipedBy) {
+      const swiped = [eq(swipeEvents.buyerId, options.excludeSwipedBy), eq(swipeEvents.listingId, properties.id)];
+      if (options.swipedBefore) swiped.push(lte(swipeEvents.createdAt, options.swipedBefore));
+      conditions.push(notExists(db.select({ one: sql`1` }).from(swipeEvents).where(and(...swiped))));
+    }
+
+    return db
+      .select()
+      .from(properties)
+      .where(and(...conditions))
+      .orderBy(desc(properties.id))
+      .limit(options.limit);
+  }
+
   async getProperty(id: number): Promise<Property | undefined> {
     const [property] = await db.select().from(properties).where(eq(properties.id, id));
     return property;
@@ -120,6 +247,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteProperty(id: number): Promise<boolean> {
+    await db.delete(listingPhotos).where(eq(listingPhotos.propertyId, id));
+    await db.delete(listingCopyVariants).where(eq(listingCopyVariants.propertyId, id));
+    await db.delete(savedHomes).where(eq(savedHomes.listingId, id));
     const result = await db.delete(properties).where(eq(properties.id, id)).returning();
     return result.length > 0;
   }
@@ -138,9 +268,22 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(leads);
   }
 
+  // A buyer belongs to an organization once they are a lead on one of its listings.
+  async isBuyerInOrganization(buyerId: string, organizationId: number): Promise<boolean> {
+    const [row] = await db
+      .select({ id: leads.id })
+      .from(leads)
+      .where(and(
+        eq(leads.buyerId, buyerId),
+        sql`exists (select 1 from ${properties} p where p.id = ${leads.propertyId} and p.organization_id = ${organizationId})`
+      ))
+      .limit(1);
+    return !!row;
+  }
+
   async getNotifications(recipientId: string): Promise<Notification[]> {
     return db.select().from(notifications)
-      .where(eq(notifications.recipientId, recipientId))
+      .where(and(eq(notifications.recipientId, recipientId), isNull(notifications.voidedAt)))
       .orderBy(desc(notifications.createdAt));
   }
 
@@ -149,7 +292,8 @@ export class DatabaseStorage implements IStorage {
       .from(notifications)
       .where(and(
         eq(notifications.recipientId, recipientId),
-        eq(notifications.readStatus, false)
+        eq(notifications.readStatus, false),
+        isNull(notifications.voidedAt)
       ));
     return result[0]?.count ?? 0;
   }
@@ -325,6 +469,40 @@ export class DatabaseStorage implements IStorage {
     return buyer;
   }
 
+  async updateBuyer(id: string, data: Partial<InsertBuyer>): Promise<Buyer | undefined> {
+    const [buyer] = await db.update(buyers).set(data).where(eq(buyers.id, id)).returning();
+    return buyer;
+  }
+
+  async createVerificationCode(data: InsertVerificationCode): Promise<VerificationCode> {
+    const [row] = await db.insert(verificationCodes).values(data).returning();
+    return row;
+  }
+
+  // Marks a live code as used in the same statement that matches it, so a
+  // code can only be redeemed once.
+  async consumeVerificationCode(
+    destination: string,
+    code: string,
+    scope: { channel: string; buyerId: string }
+  ): Promise<VerificationCode | undefined> {
+    const [row] = await db
+      .update(verificationCodes)
+      .set({ used: true })
+      .where(
+        and(
+          eq(verificationCodes.email, destination),
+          eq(verificationCodes.code, code),
+          eq(verificationCodes.channel, scope.channel),
+          eq(verificationCodes.buyerId, scope.buyerId),
+          eq(verificationCodes.used, false),
+          gt(verificationCodes.expiresAt, new Date())
+        )
+      )
+      .returning();
+    return row;
+  }
+
   async createSwipeEvent(data: InsertSwipeEvent): Promise<SwipeEvent> {
     const [event] = await db.insert(swipeEvents).values(data).returning();
     return event;
@@ -338,6 +516,46 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(swipeEvents.createdAt));
   }
 
+  async deleteSwipeEvent(id: string): Promise<boolean> {
+    const result = await db.delete(swipeEvents).where(eq(swipeEvents.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async deleteLeadsBySwipeEvent(swipeEventId: string): Promise<Lead[]> {
+    return db.delete(leads).where(eq(leads.swipeEventId, swipeEventId)).returning();
+  }
+
+  async voidNotificationsBySwipeEvent(swipeEventId: string): Promise<Notification[]> {
+    return db
+      .update(notifications)
+      .set({ voidedAt: new Date() })
+      .where(and(eq(notifications.swipeEventId, swipeEventId), isNull(notifications.voidedAt)))
+      .returning();
+  }
+
+  async getSwipeActionCounts(): Promise<Array<{ listingId: number; action: string; count: number }>> {
+    return db
+      .select({
+        listingId: swipeEvents.listingId,
+        action: swipeEvents.action,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(swipeEvents)
+      .groupBy(swipeEvents.listingId, swipeEvents.action);
+  }
+
+  // Newest first.
+  async getSwipeInteractions(
+    options: { since: Date; limit: number }
+  ): Promise<Array<{ buyerId: string; listingId: number; action: string }>> {
+    return db
+      .select({ buyerId: swipeEvents.buyerId, listingId: swipeEvents.listingId, action: swipeEvents.action })
+      .from(swipeEvents)
+      .where(gte(swipeEvents.createdAt, options.since))
+      .orderBy(desc(swipeEvents.createdAt))
+      .limit(options.limit);
+  }
+
   async getPropertiesByIds(ids: number[]): Promise<Property[]> {
     if (ids.length === 0) return [];
     return db.select().from(properties).where(inArray(properties.id, ids));
@@ -358,6 +576,454 @@ export class DatabaseStorage implements IStorage {
       .where(eq(leads.agentId, agentId))
       .orderBy(desc(leads.matchScore), desc(leads.createdAt));
   }
+
+  async getLeadsByBuyer(buyerId: string): Promise<Lead[]> {
+    return db.select().from(leads).where(eq(leads.buyerId, buyerId)).orderBy(desc(leads.createdAt));
+  }
+
+  async updateLead(id: number, data: Partial<InsertLead>): Promise<Lead | undefined> {
+    const [lead] = await db.update(leads).set(data).where(eq(leads.id, id)).returning();
+    return lead;
+  }
+
+  async updateLeadsByBuyer(buyerId: string, data: Partial<InsertLead>): Promise<Lead[]> {
+    return db.update(leads).set(data).where(eq(leads.buyerId, buyerId)).returning();
+  }
+
+  // Undefined when the buyer already has a milestone at this swipe count.
+  async createBuyerProfileSnapshot(data: InsertBuyerProfileSnapshot): Promise<BuyerProfileSnapshot | undefined> {
+    const [snapshot] = await db.insert(buyerProfileSnapshots).values(data).onConflictDoNothing().returning();
+    return snapshot;
+  }
+
+  async getLatestBuyerProfileSnapshot(buyerId: string): Promise<BuyerProfileSnapshot | undefined> {
+    const [snapshot] = await db
+      .select()
+      .from(buyerProfileSnapshots)
+      .where(eq(buyerProfileSnapshots.buyerId, buyerId))
+      .orderBy(desc(buyerProfileSnapshots.createdAt), desc(buyerProfileSnapshots.id))
+      .limit(1);
+    return snapshot;
+  }
+
+  async getBuyerProfileSnapshots(buyerId: string): Promise<BuyerProfileSnapshot[]> {
+    return db
+      .select()
+      .from(buyerProfileSnapshots)
+      .where(eq(buyerProfileSnapshots.buyerId, buyerId))
+      .orderBy(buyerProfileSnapshots.createdAt, buyerProfileSnapshots.id);
+  }
+
+  async deleteBuyerProfileSnapshotsBySwipeEvent(swipeEventId: string): Promise<BuyerProfileSnapshot[]> {
+    return db.delete(buyerProfileSnapshots).where(eq(buyerProfileSnapshots.swipeEventId, swipeEventId)).returning();
+  }
+
+  async createHousehold(data: InsertHousehold): Promise<Household> {
+    const [household] = await db.insert(households).values(data).returning();
+    return household;
+  }
+
+  async getHousehold(id: string): Promise<Household | undefined> {
+    const [household] = await db.select().from(households).where(eq(households.id, id));
+    return household;
+  }
+
+  async getHouseholdMembers(householdId: string): Promise<HouseholdMember[]> {
+    return db
+      .select()
+      .from(householdMembers)
+      .where(eq(householdMembers.householdId, householdId))
+      .orderBy(householdMembers.joinedAt);
+  }
+
+  async getHouseholdMembership(buyerId: string): Promise<HouseholdMember | undefined> {
+    const [member] = await db.select().from(householdMembers).where(eq(householdMembers.buyerId, buyerId));
+    return member;
+  }
+
+  // A buyer belongs to at most one household; returns undefined instead of
+  // moving them if they already have one.
+  async addHouseholdMember(householdId: string, buyerId: string): Promise<HouseholdMember | undefined> {
+    const [member] = await db
+      .insert(householdMembers)
+      .values({ householdId, buyerId })
+      .onConflictDoNothing({ target: householdMembers.buyerId })
+      .returning();
+    return member;
+  }
+
+  async createHouseholdInvite(data: InsertHouseholdInvite): Promise<HouseholdInvite> {
+    const [invite] = await db.insert(householdInvites).values(data).returning();
+    return invite;
+  }
+
+  async acceptHouseholdInvite(code: string, buyerId: string): Promise<HouseholdInvite | undefined> {
+    const [invite] = await db
+      .update(householdInvites)
+      .set({ acceptedBy: buyerId, acceptedAt: new Date() })
+      .where(
+        and(
+          eq(householdInvites.code, code),
+          isNull(householdInvites.acceptedAt),
+          gt(householdInvites.expiresAt, new Date())
+        )
+      )
+      .returning();
+    return invite;
+  }
+
+  async removeHouseholdMember(householdId: string, buyerId: string): Promise<boolean> {
+    const result = await db
+      .delete(householdMembers)
+      .where(and(eq(householdMembers.householdId, householdId), eq(householdMembers.buyerId, buyerId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getLeadByHouseholdAndProperty(householdId: string, propertyId: number): Promise<Lead | undefined> {
+    const [lead] = await db
+      .select()
+      .from(leads)
+      .where(and(eq(leads.householdId, householdId), eq(leads.propertyId, propertyId)));
+    return lead;
+  }
+
+  async getVibeDefinitions(organizationId: number): Promise<VibeDefinitionRow[]> {
+    return db
+      .select()
+      .from(vibeDefinitions)
+      .where(eq(vibeDefinitions.organizationId, organizationId))
+      .orderBy(vibeDefinitions.id);
+  }
+
+  async upsertVibeDefinition(data: InsertVibeDefinition): Promise<VibeDefinitionRow> {
+    const [row] = await db
+      .insert(vibeDefinitions)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [vibeDefinitions.organizationId, vibeDefinitions.name],
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  async deleteVibeDefinition(organizationId: number, name: string): Promise<boolean> {
+    const result = await db
+      .delete(vibeDefinitions)
+      .where(and(eq(vibeDefinitions.organizationId, organizationId), eq(vibeDefinitions.name, name)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getListingPhotos(propertyId: number): Promise<ListingPhoto[]> {
+    return db
+      .select()
+      .from(listingPhotos)
+      .where(eq(listingPhotos.propertyId, propertyId))
+      .orderBy(asc(listingPhotos.position));
+  }
+
+  async getListingPhotosByPropertyIds(propertyIds: number[]): Promise<ListingPhoto[]> {
+    if (propertyIds.length === 0) return [];
+    return db
+      .select()
+      .from(listingPhotos)
+      .where(inArray(listingPhotos.propertyId, propertyIds))
+      .orderBy(asc(listingPhotos.propertyId), asc(listingPhotos.position));
+  }
+
+  // Makes the stored photos match the given list: removed URLs are deleted and
+  // the rest are upserted by (propertyId, url).
+  async replaceListingPhotos(
+    propertyId: number,
+    photos: Omit<InsertListingPhoto, "propertyId">[]
+  ): Promise<ListingPhoto[]> {
+    return db.transaction(async (tx) => {
+      const urls = photos.map((p) => p.url);
+      await tx
+        .delete(listingPhotos)
+        .where(
+          urls.length > 0
+            ? and(eq(listingPhotos.propertyId, propertyId), notInArray(listingPhotos.url, urls))
+            : eq(listingPhotos.propertyId, propertyId)
+        );
+      if (photos.length === 0) return [];
+      return tx
+        .insert(listingPhotos)
+        .values(photos.map((p) => ({ ...p, propertyId })))
+        .onConflictDoUpdate({
+          target: [listingPhotos.propertyId, listingPhotos.url],
+          set: {
+            position: sql`excluded.position`,
+            roomType: sql`excluded.room_type`,
+            isEmpty: sql`excluded.is_empty`,
+            vibeVector: sql`excluded.vibe_vector`,
+            topVibe: sql`excluded.top_vibe`,
+            confidence: sql`excluded.confidence`,
+            qualityScore: sql`excluded.quality_score`,
+            width: sql`excluded.width`,
+            height: sql`excluded.height`,
+            classifiedAt: sql`excluded.classified_at`,
+          },
+        })
+        .returning();
+    });
+  }
+
+  async countStaleProperties(version: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(properties)
+      .where(sql`${properties.vibeVersion} is distinct from ${version}`);
+    return row?.count ?? 0;
+  }
+
+  async getStaleProperties(version: string, afterId: number, limit: number): Promise<Property[]> {
+    return db
+      .select()
+      .from(properties)
+      .where(and(sql`${properties.vibeVersion} is distinct from ${version}`, gt(properties.id, afterId)))
+      .orderBy(asc(properties.id))
+      .limit(limit);
+  }
+
+  async getListingCorpusText(): Promise<Array<Pick<Property, "description" | "images">>> {
+    return db.select({ description: properties.description, images: properties.images }).from(properties);
+  }
+
+  async getListingIdfSnapshot(id: string): Promise<ListingIdfSnapshot | undefined> {
+    const [snapshot] = await db.select().from(listingIdfSnapshots).where(eq(listingIdfSnapshots.id, id));
+    return snapshot;
+  }
+
+  // First writer wins, so concurrent scorers all end up on the same snapshot.
+  async createListingIdfSnapshot(data: InsertListingIdfSnapshot): Promise<ListingIdfSnapshot> {
+    const [created] = await db.insert(listingIdfSnapshots).values(data).onConflictDoNothing().returning();
+    if (created) return created;
+    const [existing] = await db.select().from(listingIdfSnapshots).where(eq(listingIdfSnapshots.id, data.id));
+    return existing;
+  }
+
+  async getLeadsByProperty(propertyId: number): Promise<Lead[]> {
+    return db.select().from(leads).where(eq(leads.propertyId, propertyId));
+  }
+
+  async createVibeBackfillJob(data: InsertVibeBackfillJob): Promise<VibeBackfillJob> {
+    const [job] = await db.insert(vibeBackfillJobs).values(data).returning();
+    return job;
+  }
+
+  async getVibeBackfillJob(id: string): Promise<VibeBackfillJob | undefined> {
+    const [job] = await db.select().from(vibeBackfillJobs).where(eq(vibeBackfillJobs.id, id));
+    return job;
+  }
+
+  async getVibeBackfillJobs(options: { statuses?: string[]; limit?: number } = {}): Promise<VibeBackfillJob[]> {
+    return db
+      .select()
+      .from(vibeBackfillJobs)
+      .where(options.statuses?.length ? inArray(vibeBackfillJobs.status, options.statuses) : undefined)
+      .orderBy(desc(vibeBackfillJobs.createdAt))
+      .limit(options.limit ?? 20);
+  }
+
+  async updateVibeBackfillJob(id: string, data: Partial<InsertVibeBackfillJob>): Promise<VibeBackfillJob | undefined> {
+    const [job] = await db
+      .update(vibeBackfillJobs)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(vibeBackfillJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async createVibeBackfillDiff(data: InsertVibeBackfillDiff): Promise<VibeBackfillDiff> {
+    const [diff] = await db.insert(vibeBackfillDiffs).values(data).returning();
+    return diff;
+  }
+
+  async getVibeBackfillDiffs(
+    jobId: string,
+    options: { movedOnly?: boolean; limit?: number } = {}
+  ): Promise<VibeBackfillDiff[]> {
+    return db
+      .select()
+      .from(vibeBackfillDiffs)
+      .where(
+        options.movedOnly
+          ? and(eq(vibeBackfillDiffs.jobId, jobId), eq(vibeBackfillDiffs.topVibeChanged, true))
+          : eq(vibeBackfillDiffs.jobId, jobId)
+      )
+      .orderBy(desc(vibeBackfillDiffs.shift))
+      .limit(options.limit ?? 100);
+  }
+
+  async createVibeOverrideExample(data: InsertVibeOverrideExample): Promise<VibeOverrideExample> {
+    const [example] = await db.insert(vibeOverrideExamples).values(data).returning();
+    return example;
+  }
+
+  async getVibeOverrideExamples(propertyId: number): Promise<VibeOverrideExample[]> {
+    return db
+      .select()
+      .from(vibeOverrideExamples)
+      .where(eq(vibeOverrideExamples.propertyId, propertyId))
+      .orderBy(desc(vibeOverrideExamples.createdAt));
+  }
+
+  async getVibeOverrideStats(): Promise<
+    Array<{ algorithmVersion: string | null; source: string; predictedTop: string | null; total: number; disagreements: number }>
+  > {
+    return db
+      .select({
+        algorithmVersion: vibeOverrideExamples.algorithmVersion,
+        source: vibeOverrideExamples.source,
+        predictedTop: vibeOverrideExamples.predictedTop,
+        total: sql<number>`count(*)::int`,
+        disagreements: sql<number>`count(*) filter (where not ${vibeOverrideExamples.agrees})::int`,
+      })
+      .from(vibeOverrideExamples)
+      .groupBy(vibeOverrideExamples.algorithmVersion, vibeOverrideExamples.source, vibeOverrideExamples.predictedTop);
+  }
+
+  async getListingCopyVariants(propertyId: number): Promise<ListingCopyVariant[]> {
+    return db
+      .select()
+      .from(listingCopyVariants)
+      .where(eq(listingCopyVariants.propertyId, propertyId))
+      .orderBy(asc(listingCopyVariants.vibe));
+  }
+
+  async getListingCopyVariantsForVibe(propertyIds: number[], vibe: string): Promise<ListingCopyVariant[]> {
+    if (propertyIds.length === 0) return [];
+    return db
+      .select()
+      .from(listingCopyVariants)
+      .where(and(inArray(listingCopyVariants.propertyId, propertyIds), eq(listingCopyVariants.vibe, vibe)));
+  }
+
+  async upsertListingCopyVariant(data: InsertListingCopyVariant): Promise<ListingCopyVariant> {
+    const [variant] = await db
+      .insert(listingCopyVariants)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [listingCopyVariants.propertyId, listingCopyVariants.vibe],
+        set: {
+          headline: data.headline,
+          description: data.description,
+          socialCaption: data.socialCaption,
+          provider: data.provider,
+          agentId: data.agentId,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return variant;
+  }
+
+  async deleteListingCopyVariant(propertyId: number, vibe: string): Promise<boolean> {
+    const result = await db
+      .delete(listingCopyVariants)
+      .where(and(eq(listingCopyVariants.propertyId, propertyId), eq(listingCopyVariants.vibe, vibe)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getSavedHomes(buyerId: string): Promise<SavedHome[]> {
+    return db
+      .select()
+      .from(savedHomes)
+      .where(eq(savedHomes.buyerId, buyerId))
+      .orderBy(asc(savedHomes.priority), asc(savedHomes.createdAt));
+  }
+
+  // Idempotent: saving a home twice keeps its note and place in the list.
+  async addSavedHome(buyerId: string, listingId: number): Promise<SavedHome> {
+    const [inserted] = await db
+      .insert(savedHomes)
+      .values({
+        buyerId,
+        listingId,
+        priority: sql`(select coalesce(max(${savedHomes.priority}), -1) + 1 from ${savedHomes} where ${savedHomes.buyerId} = ${buyerId})`,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (inserted) return inserted;
+    const [existing] = await db
+      .select()
+      .from(savedHomes)
+      .where(and(eq(savedHomes.buyerId, buyerId), eq(savedHomes.listingId, listingId)));
+    return existing;
+  }
+
+  async updateSavedHomeNote(buyerId: string, listingId: number, note: string | null): Promise<SavedHome | undefined> {
+    const [saved] = await db
+      .update(savedHomes)
+      .set({ note, updatedAt: new Date() })
+      .where(and(eq(savedHomes.buyerId, buyerId), eq(savedHomes.listingId, listingId)))
+      .returning();
+    return saved;
+  }
+
+  async deleteSavedHome(buyerId: string, listingId: number): Promise<boolean> {
+    const result = await db
+      .delete(savedHomes)
+      .where(and(eq(savedHomes.buyerId, buyerId), eq(savedHomes.listingId, listingId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Listed homes take priorities 0..n-1 in the given order; any the caller
+  // left out keep their relative order after them.
+  async reorderSavedHomes(buyerId: string, listingIds: number[]): Promise<SavedHome[]> {
+    return db.transaction(async (tx) => {
+      const current = await tx
+        .select()
+        .from(savedHomes)
+        .where(eq(savedHomes.buyerId, buyerId))
+        .orderBy(asc(savedHomes.priority), asc(savedHomes.createdAt));
+      const requested = Array.from(new Set(listingIds)).filter((id) => current.some((s) => s.listingId === id));
+      const ordered = [...requested, ...current.map((s) => s.listingId).filter((id) => !requested.includes(id))];
+      for (let i = 0; i < ordered.length; i += 1) {
+        await tx
+          .update(savedHomes)
+          .set({ priority: i, updatedAt: new Date() })
+          .where(and(eq(savedHomes.buyerId, buyerId), eq(savedHomes.listingId, ordered[i])));
+      }
+      return tx
+        .select()
+        .from(savedHomes)
+        .where(eq(savedHomes.buyerId, buyerId))
+        .orderBy(asc(savedHomes.priority), asc(savedHomes.createdAt));
+    });
+  }
+
+  async createTasteShare(data: InsertTasteShare): Promise<TasteShare> {
+    const [share] = await db.insert(tasteShares).values(data).returning();
+    return share;
+  }
+
+  async getTasteShare(id: string): Promise<TasteShare | undefined> {
+    const [share] = await db.select().from(tasteShares).where(eq(tasteShares.id, id));
+    return share;
+  }
+
+  async getActiveTasteSharesByBuyer(buyerId: string): Promise<TasteShare[]> {
+    return db
+      .select()
+      .from(tasteShares)
+      .where(and(eq(tasteShares.buyerId, buyerId), isNull(tasteShares.revokedAt)))
+      .orderBy(desc(tasteShares.createdAt));
+  }
+
+  async revokeTasteShare(id: string, buyerId: string): Promise<TasteShare | undefined> {
+    const [share] = await db
+      .update(tasteShares)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(tasteShares.id, id), eq(tasteShares.buyerId, buyerId), isNull(tasteShares.revokedAt)))
+      .returning();
+    return share;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,80 @@
+import type { BuyerVibeProfile } from "@shared/tasteAlgorithm";
+import type { SwipeEvent } from "@shared/schema";
+import { storage } from "./storage";
+import { loadBuyerProfile } from "./buyerProfiles";
+import { forgetCollaborativeSwipe } from "./collaborativeRecommender";
+import { refreshBuyerLeads } from "./savedHomes";
+import { revertTasteHistory } from "./tasteHistory";
+import { getVibeRegistry } from "./vibeRegistry";
+import { getSwipeUndoWindowMs } from "./tasteConfig";
+
+export type SwipeUndoResult =
+  | {
+      status: "undone";
+      event: SwipeEvent;
+      retractedLeadIds: number[];
+      voidedNotificationIds: number[];
+      unsaved: boolean;
+      driftReverted: boolean;
+      profile: BuyerVibeProfile;
+    }
+  | { status: "nothing" }
+  | { status: "expired"; event: SwipeEvent };
+
+// Reverts the buyer's most recent swipe if it is still inside the undo
+// window, along with the lead, notifications, saved home and taste drift it
+// produced.
+export async function undoLastSwipe(buyerId: string, now: Date = new Date()): Promise<SwipeUndoResult> {
+  const events = await storage.getSwipeEventsByBuyer(buyerId);
+  const last = events[0];
+  // Removing a saved home is not a swipe, so it is not undone here.
+  if (!last || last.action === "unsave") return { status: "nothing" };
+  if (!last.createdAt || now.getTime() - last.createdAt.getTime() > getSwipeUndoWindowMs()) {
+    return { status: "expired", event: last };
+  }
+
+  const deleted = await storage.deleteSwipeEvent(last.id);
+  if (!deleted) return { status: "nothing" };
+
+  const retracted = await storage.deleteLeadsBySwipeEvent(last.id);
+  const voided = await storage.voidNotificationsBySwipeEvent(last.id);
+
+  let unsaved = false;
+  if (last.action === "like" || last.action === "save") {
+    const saved = (await storage.getSavedHomes(buyerId)).find((s) => s.listingId === last.listingId);
+    if (saved?.createdAt && saved.createdAt >= last.createdAt) {
+      unsaved = await storage.deleteSavedHome(buyerId, last.listingId);
+    }
+  }
+
+  const previous = events.slice(1).find((e) => e.listingId === last.listingId);
+  forgetCollaborativeSwipe(buyerId, last.listingId, previous?.action ?? null);
+
+  try {
+    await refreshBuyerLeads(buyerId);
+  } catch (error: any) {
+    console.warn(`[SwipeUndo] Failed to refresh leads for ${buyerId}: ${error?.message ?? error}`);
+  }
+
+  // The swipe route scored the drift with the listing's registry.
+  let driftReverted = false;
+  try {
+    const listing = await storage.getProperty(last.listingId);
+    const registry = await getVibeRegistry(listing?.organizationId);
+    const { profile: driftProfile } = await loadBuyerProfile(buyerId, registry);
+    driftReverted = await revertTasteHistory(buyerId, last.id, driftProfile, registry);
+  } catch (error: any) {
+    console.warn(`[SwipeUndo] Failed to revert taste history for ${buyerId}: ${error?.message ?? error}`);
+  }
+
+  const { profile } = await loadBuyerProfile(buyerId);
+  return {
+    status: "undone",
+    event: last,
+    retractedLeadIds: retracted.map((l) => l.id),
+    voidedNotificationIds: voided.map((n) => n.id),
+    unsaved,
+    driftReverted,
+    profile,
+  };
+}
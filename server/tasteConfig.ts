@@ -0,0 +1,126 @@
+import {
+  DEFAULT_AVOIDANCE_PENALTY_WEIGHT,
+  DEFAULT_BUYER_VECTOR_OPTIONS,
+  DEFAULT_DRIFT_MIN_SHIFT,
+  DEFAULT_FEED_RANKING_OPTIONS,
+  DEFAULT_MATCH_WEIGHTS,
+  type BuyerVectorOptions,
+  type FeedRankingOptions,
+  type MatchWeights,
+} from "@shared/tasteAlgorithm";
+import { DEFAULT_VIBE_ENSEMBLE_WEIGHTS, type VibeEnsembleWeights } from "./listingVibeAlgorithm";
+
+function readNumberEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw == null || raw.trim() === "") return fallback;
+  const parsed = Number(raw);
+  if (!Number.isFinite(parsed)) {
+    console.warn(`[TasteConfig] ${name}="${raw}" is not a number, using ${fallback}`);
+    return fallback;
+  }
+  return parsed;
+}
+
+export function getBuyerVectorOptions(): BuyerVectorOptions {
+  return {
+    halfLifeDays: readNumberEnv("BUYER_VIBE_HALF_LIFE_DAYS", DEFAULT_BUYER_VECTOR_OPTIONS.halfLifeDays),
+    dwellBaselineMs: readNumberEnv("BUYER_VIBE_DWELL_BASELINE_MS", DEFAULT_BUYER_VECTOR_OPTIONS.dwellBaselineMs),
+    minDwellMultiplier: readNumberEnv("BUYER_VIBE_MIN_DWELL_MULTIPLIER", DEFAULT_BUYER_VECTOR_OPTIONS.minDwellMultiplier),
+    maxDwellMultiplier: readNumberEnv("BUYER_VIBE_MAX_DWELL_MULTIPLIER", DEFAULT_BUYER_VECTOR_OPTIONS.maxDwellMultiplier),
+    priorStrength: readNumberEnv("BUYER_VIBE_PRIOR_STRENGTH", DEFAULT_BUYER_VECTOR_OPTIONS.priorStrength),
+    confidenceSwipeScale: readNumberEnv("BUYER_VIBE_CONFIDENCE_SWIPE_SCALE", DEFAULT_BUYER_VECTOR_OPTIONS.confidenceSwipeScale),
+  };
+}
+
+export const DEFAULT_LEAD_MIN_CONFIDENCE = 0.4;
+
+export function getLeadMinConfidence(): number {
+  return readNumberEnv("LEAD_MIN_CONFIDENCE", DEFAULT_LEAD_MIN_CONFIDENCE);
+}
+
+export function getAvoidancePenaltyWeight(): number {
+  return readNumberEnv("MATCH_AVOIDANCE_PENALTY_WEIGHT", DEFAULT_AVOIDANCE_PENALTY_WEIGHT);
+}
+
+export function getMatchWeights(): MatchWeights {
+  return {
+    vibe: readNumberEnv("MATCH_WEIGHT_VIBE", DEFAULT_MATCH_WEIGHTS.vibe),
+    price: readNumberEnv("MATCH_WEIGHT_PRICE", DEFAULT_MATCH_WEIGHTS.price),
+    size: readNumberEnv("MATCH_WEIGHT_SIZE", DEFAULT_MATCH_WEIGHTS.size),
+    location: readNumberEnv("MATCH_WEIGHT_LOCATION", DEFAULT_MATCH_WEIGHTS.location),
+  };
+}
+
+export const DEFAULT_SWIPE_UNDO_WINDOW_MS = 60000;
+
+export function getSwipeUndoWindowMs(): number {
+  return Math.max(0, readNumberEnv("SWIPE_UNDO_WINDOW_MS", DEFAULT_SWIPE_UNDO_WINDOW_MS));
+}
+
+export const DEFAULT_FEED_CANDIDATE_POOL_SIZE = 500;
+
+// Newest matching listings considered when ranking a buyer's deck.
+export function getFeedCandidatePoolSize(): number {
+  return Math.max(1, Math.round(readNumberEnv("FEED_CANDIDATE_POOL_SIZE", DEFAULT_FEED_CANDIDATE_POOL_SIZE)));
+}
+
+export const DEFAULT_COLLABORATIVE_WINDOW_DAYS = 180;
+export const DEFAULT_COLLABORATIVE_MAX_EVENTS = 200000;
+export const DEFAULT_COLLABORATIVE_RELOAD_MS = 5 * 60000;
+
+// Only swipes from this many recent days feed collaborative filtering.
+export function getCollaborativeWindowDays(): number {
+  return Math.max(1, readNumberEnv("COLLABORATIVE_WINDOW_DAYS", DEFAULT_COLLABORATIVE_WINDOW_DAYS));
+}
+
+// Upper bound on swipe events held in the collaborative index.
+export function getCollaborativeMaxEvents(): number {
+  return Math.max(1, Math.round(readNumberEnv("COLLABORATIVE_MAX_EVENTS", DEFAULT_COLLABORATIVE_MAX_EVENTS)));
+}
+
+// How long a loaded collaborative index is served before it is rebuilt, so
+// swipes handled by other instances show up.
+export function getCollaborativeReloadMs(): number {
+  return Math.max(0, readNumberEnv("COLLABORATIVE_RELOAD_MS", DEFAULT_COLLABORATIVE_RELOAD_MS));
+}
+
+export function getFeedRankingOptions(): FeedRankingOptions {
+  return {
+    exploreRate: readNumberEnv("FEED_EXPLORE_RATE", DEFAULT_FEED_RANKING_OPTIONS.exploreRate),
+    maxVibeRun: readNumberEnv("FEED_MAX_VIBE_RUN", DEFAULT_FEED_RANKING_OPTIONS.maxVibeRun),
+  };
+}
+
+export const DEFAULT_SNAPSHOT_EVERY_SWIPES = 5;
+
+export function getSnapshotEverySwipes(): number {
+  return Math.max(1, Math.round(readNumberEnv("BUYER_SNAPSHOT_EVERY_SWIPES", DEFAULT_SNAPSHOT_EVERY_SWIPES)));
+}
+
+export function getDriftMinShift(): number {
+  return readNumberEnv("BUYER_DRIFT_MIN_SHIFT", DEFAULT_DRIFT_MIN_SHIFT);
+}
+
+export const DEFAULT_VIBE_ENSEMBLE_MAX_PHOTOS = 8;
+
+export function getVibeEnsembleWeights(): VibeEnsembleWeights {
+  return {
+    text: readNumberEnv("VIBE_ENSEMBLE_TEXT_WEIGHT", DEFAULT_VIBE_ENSEMBLE_WEIGHTS.text),
+    photo: readNumberEnv("VIBE_ENSEMBLE_PHOTO_WEIGHT", DEFAULT_VIBE_ENSEMBLE_WEIGHTS.photo),
+  };
+}
+
+export function getVibeEnsembleMaxPhotos(): number {
+  return Math.max(0, Math.round(readNumberEnv("VIBE_ENSEMBLE_MAX_PHOTOS", DEFAULT_VIBE_ENSEMBLE_MAX_PHOTOS)));
+}
+
+export const DEFAULT_VIBE_BACKFILL_BATCH_SIZE = 25;
+export const DEFAULT_VIBE_BACKFILL_BATCH_DELAY_MS = 2000;
+
+export function getVibeBackfillBatchSize(): number {
+  return Math.max(1, Math.round(readNumberEnv("VIBE_BACKFILL_BATCH_SIZE", DEFAULT_VIBE_BACKFILL_BATCH_SIZE)));
+}
+
+export function getVibeBackfillBatchDelayMs(): number {
+  return Math.max(0, readNumberEnv("VIBE_BACKFILL_BATCH_DELAY_MS", DEFAULT_VIBE_BACKFILL_BATCH_DELAY_MS));
+}
@@ -0,0 +1,124 @@
+import { detectTasteDrift, type BuyerVibeProfile, type TasteDrift, type VibeRegistry } from "@shared/tasteAlgorithm";
+import type { Lead } from "@shared/schema";
+import { storage } from "./storage";
+import { buildTalkTrack } from "./buyerProfiles";
+import { buildHouseholdLeadFields, loadHouseholdForBuyer } from "./households";
+import { getDriftMinShift, getLeadMinConfidence, getSnapshotEverySwipes } from "./tasteConfig";
+
+type RecordTasteHistoryInput = {
+  buyerId: string;
+  swipeCount: number;
+  profile: BuyerVibeProfile;
+  registry: VibeRegistry;
+  // Swipe that produced this profile, so undoing it can revert the history.
+  swipeEventId?: string | null;
+};
+
+// Rewrites the talk track and buyer vibes on every lead for the buyer's
+// current top vibe. Returns each lead with the talk track it now carries.
+async function updateLeadTalkTracks(
+  buyerId: string,
+  topVibe: string | null,
+  profile: BuyerVibeProfile,
+  registry: VibeRegistry
+) {
+  const leads = await storage.getLeadsByBuyer(buyerId);
+  const buyerFields = buildTalkTrack(topVibe, registry);
+  const household = leads.some((lead) => lead.householdId) ? await loadHouseholdForBuyer(buyerId, registry) : null;
+  const householdFields = household ? buildHouseholdLeadFields(household, registry) : null;
+
+  const updated: Array<{ lead: Lead; talkTrack: string }> = [];
+  for (const lead of leads) {
+    const fields = lead.householdId && householdFields ? householdFields : buyerFields;
+    await storage.updateLead(lead.id, {
+      talkTrack: fields.talkTrack,
+      avoidList: fields.avoidList as any,
+      ...(fields === householdFields ? { memberAvoidLists: householdFields.memberAvoidLists as any } : {}),
+      buyerVector: profile.vector as any,
+      topBuyerVibes: profile.topVibes as any,
+    });
+    updated.push({ lead, talkTrack: fields.talkTrack });
+  }
+  return updated;
+}
+
+async function applyDrift(
+  buyerId: string,
+  drift: TasteDrift,
+  profile: BuyerVibeProfile,
+  registry: VibeRegistry,
+  swipeEventId: string | null
+) {
+  const updated = await updateLeadTalkTracks(buyerId, drift.to, profile, registry);
+  const notifiedAgents = new Set<string>();
+
+  for (const { lead, talkTrack } of updated) {
+    if (!lead.agentId || notifiedAgents.has(lead.agentId)) continue;
+    notifiedAgents.add(lead.agentId);
+    await storage.createNotification({
+      recipientId: lead.agentId,
+      type: "drift",
+      content: JSON.stringify({
+        message: `Buyer taste shifted from ${drift.from} to ${drift.to}. Updated talk track: ${talkTrack}`,
+        buyerId,
+        propertyId: lead.propertyId,
+        from: drift.from,
+        to: drift.to,
+      }),
+      priority: "normal",
+      readStatus: false,
+      swipeEventId,
+    });
+  }
+}
+
+// Snapshots the profile every N swipes, and immediately when the top vibe
+// drifts away from the last snapshot. Drift is only trusted once the profile
+// is confident enough to create leads.
+export async function recordTasteHistory({
+  buyerId,
+  swipeCount,
+  profile,
+  registry,
+  swipeEventId = null,
+}: RecordTasteHistoryInput): Promise<TasteDrift | null> {
+  const latest = await storage.getLatestBuyerProfileSnapshot(buyerId);
+  const drift =
+    latest && profile.confidence >= getLeadMinConfidence()
+      ? detectTasteDrift(latest.vector as Record<string, number>, profile.vector, getDriftMinShift())
+      : null;
+  const milestone = swipeCount > 0 && swipeCount % getSnapshotEverySwipes() === 0;
+  if (!drift && !milestone) return null;
+
+  await storage.createBuyerProfileSnapshot({
+    buyerId,
+    swipeCount,
+    vector: profile.vector,
+    topVibes: profile.topVibes,
+    confidence: profile.confidence,
+    trigger: drift ? "drift" : "milestone",
+    driftFrom: drift?.from ?? null,
+    driftTo: drift?.to ?? null,
+    swipeEventId,
+  });
+
+  if (drift) {
+    await applyDrift(buyerId, drift, profile, registry, swipeEventId);
+  }
+  return drift;
+}
+
+// Drops the snapshots an undone swipe recorded. When one of them was a drift,
+// the leads go back to the talk track for the buyer's profile without that
+// swipe; the drift notifications are voided with the swipe's others.
+export async function revertTasteHistory(
+  buyerId: string,
+  swipeEventId: string,
+  profile: BuyerVibeProfile,
+  registry: VibeRegistry
+): Promise<boolean> {
+  const removed = await storage.deleteBuyerProfileSnapshotsBySwipeEvent(swipeEventId);
+  if (!removed.some((snapshot) => snapshot.trigger === "drift")) return false;
+  await updateLeadTalkTracks(buyerId, profile.topVibes[0]?.vibe ?? null, profile, registry);
+  return true;
+}
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import type { Request } from "express";
+import { Resvg } from "@resvg/resvg-js";
+import type { BuyerVibeProfile, VibeRegistry } from "@shared/tasteAlgorithm";
+import type { TasteShare, TasteShareVibe } from "@shared/schema";
+import { storage } from "./storage";
+import { loadBuyerProfile } from "./buyerProfiles";
+import { getVibeRegistry } from "./vibeRegistry";
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const MAX_HOOK_LENGTH = 80;
+const PREVIEW_CACHE_LIMIT = 200;
+const SHARE_PATH = /^\/taste\/([A-Za-z0-9_-]+)\/?$/;
+
+// Shares are immutable snapshots, so a rendered preview stays valid until the
+// share is revoked.
+const previewCache = new Map<string, Buffer>();
+
+export function buildTasteShareVibes(profile: BuyerVibeProfile, registry: VibeRegistry): TasteShareVibe[] {
+  return profile.topVibes
+    .filter((entry) => entry.score > 0)
+    .map((entry) => ({
+      vibe: entry.vibe,
+      percentage: Math.round(entry.score * 100),
+      hook: registry.definitions[entry.vibe]?.copyHook || "",
+    }));
+}
+
+// Snapshots the buyer's current top vibes under a fresh random token. Returns
+// null when the buyer has not swiped on anything that carries a vibe yet.
+export async function createTasteShare(buyerId: string): Promise<TasteShare | null> {
+  const registry = await getVibeRegistry(null);
+  const { events, profile } = await loadBuyerProfile(buyerId, registry);
+  if (!profile.rationale.some((entry) => entry.weight > 0)) return null;
+
+  const topVibes = buildTasteShareVibes(profile, registry);
+  if (topVibes.length === 0) return null;
+
+  return storage.createTasteShare({
+    id: crypto.randomBytes(12).toString("base64url"),
+    buyerId,
+    topVibes,
+    swipeCount: events.filter((e) => e.action !== "unsave").length,
+  });
+}
+
+export async function getPublicTasteShare(shareId: string): Promise<TasteShare | null> {
+  const share = await storage.getTasteShare(shareId);
+  return share && !share.revokedAt ? share : null;
+}
+
+export async function revokeTasteShare(shareId: string, buyerId: string): Promise<boolean> {
+  const revoked = await storage.revokeTasteShare(shareId, buyerId);
+  if (!revoked) return false;
+  previewCache.delete(shareId);
+  return true;
+}
+
+export function tasteShareHeadline(share: TasteShare): string {
+  const [top, second] = share.topVibes;
+  if (!top) return "My home taste";
+  return second
+    ? `I'm ${top.percentage}% ${top.vibe}, ${second.percentage}% ${second.vibe}`
+    : `I'm ${top.percentage}% ${top.vibe}`;
+}
+
+// Public view of a share. Deliberately leaves out buyerId.
+export function toPublicTasteShare(share: TasteShare, origin: string) {
+  return {
+    shareId: share.id,
+    headline: tasteShareHeadline(share),
+    topVibes: share.topVibes,
+    swipeCount: share.swipeCount,
+    createdAt: share.createdAt,
+    url: `${origin}/taste/${share.id}`,
+    imageUrl: `${origin}/api/taste/${share.id}/preview.png`,
+  };
+}
+
+export function requestOrigin(req: Request): string {
+  const forwarded = req.get("x-forwarded-proto")?.split(",")[0]?.trim();
+  return `${forwarded || req.protocol}://${req.get("host")}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1).trimEnd()}…` : value;
+}
+
+export function renderTasteCardSvg(share: TasteShare, host: string): string {
+  const barLeft = 80;
+  const barWidth = CARD_WIDTH - barLeft * 2;
+  const rows = share.topVibes.slice(0, 3).map((entry, i) => {
+    const y = 250 + i * 110;
+    const fill = Math.max(8, Math.round((barWidth * Math.min(entry.percentage, 100)) / 100));
+    return `
+  <text x="${barLeft}" y="${y}" font-size="34" font-weight="700" fill="#f8fafc">${escapeXml(entry.vibe)}</text>
+  <text x="${CARD_WIDTH - barLeft}" y="${y}" font-size="34" font-weight="700" fill="#d4a853" text-anchor="end">${entry.percentage}%</text>
+  <rect x="${barLeft}" y="${y + 16}" width="${barWidth}" height="14" rx="7" fill="#334155"/>
+  <rect x="${barLeft}" y="${y + 16}" width="${fill}" height="14" rx="7" fill="#d4a853"/>
+  <text x="${barLeft}" y="${y + 62}" font-size="22" font-style="italic" fill="#94a3b8">${escapeXml(truncate(entry.hook, MAX_HOOK_LENGTH))}</text>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}" font-family="Playfair Display, Georgia, serif">
+  <rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="#1a1a2e"/>
+  <rect width="${CARD_WIDTH}" height="8" fill="#d4a853"/>
+  <text x="${barLeft}" y="90" font-size="40" font-weight="700" font-style="italic" fill="#d4a853">Taste</text>
+  <text x="${barLeft}" y="160" font-size="52" font-weight="700" fill="#f8fafc">${escapeXml(tasteShareHeadline(share))}</text>${rows.join("")}
+  <text x="${CARD_WIDTH - barLeft}" y="${CARD_HEIGHT - 30}" font-size="22" fill="#64748b" text-anchor="end">Find your taste at ${escapeXml(host)}</text>
+</svg>`;
+}
+
+export function renderTasteCardPng(share: TasteShare, host: string): Buffer {
+  const cached = previewCache.get(share.id);
+  if (cached) return cached;
+
+  const png = new Resvg(renderTasteCardSvg(share, host), {
+    fitTo: { mode: "width", value: CARD_WIDTH },
+    font: { loadSystemFonts: true, defaultFontFamily: "Georgia" },
+  }).render().asPng();
+
+  if (previewCache.size >= PREVIEW_CACHE_LIMIT) {
+    const oldest = previewCache.keys().next().value;
+    if (oldest !== undefined) previewCache.delete(oldest);
+  }
+  previewCache.set(share.id, png);
+  return png;
+}
+
+// Swaps the generic Open Graph tags in index.html for the share's own, so
+// link unfurlers that never run the client still get the card.
+export async function injectTasteShareMeta(req: Request, html: string): Promise<string> {
+  const match = SHARE_PATH.exec(req.path);
+  if (!match) return html;
+
+  let share: TasteShare | null;
+  try {
+    share = await getPublicTasteShare(match[1]);
+  } catch (error: any) {
+    console.warn(`[TasteShare] Failed to load share ${match[1]} for meta tags: ${error?.message ?? error}`);
+    return html;
+  }
+  if (!share) return html;
+
+  const card = toPublicTasteShare(share, requestOrigin(req));
+  const description = share.topVibes.map((v) => `${v.percentage}% ${v.vibe}`).join(" · ");
+  const tags = [
+    `<meta property="og:title" content="${escapeXml(card.headline)}" />`,
+    `<meta property="og:description" content="${escapeXml(description)}" />`,
+    `<meta property="og:type" content="website" />`,
+    `<meta property="og:url" content="${escapeXml(card.url)}" />`,
+    `<meta property="og:image" content="${escapeXml(card.imageUrl)}" />`,
+    `<meta property="og:image:width" content="${CARD_WIDTH}" />`,
+    `<meta property="og:image:height" content="${CARD_HEIGHT}" />`,
+    `<meta name="twitter:card" content="summary_large_image" />`,
+  ].join("\n    ");
+
+  return html
+    .replace(/\s*<meta property="og:[^"]+" content="[^"]*" \/>/g, "")
+    .replace("</head>", `    ${tags}\n  </head>`);
+}
@@ -0,0 +1,248 @@
+import crypto from "crypto";
+import type { Property, VibeBackfillJob } from "@shared/schema";
+import type { VibeRegistry } from "@shared/tasteAlgorithm";
+import { storage } from "./storage";
+import { getVibeRegistry } from "./vibeRegistry";
+import { LISTING_VIBE_ALGORITHM_VERSION, type ListingTermIdf } from "./listingVibeAlgorithm";
+import { getListingTermIdf } from "./listingVibeCorpus";
+import { computeListingVibeFromStoredPhotos, toPropertyVibeFields } from "./listingVibeEnsemble";
+import { getVibeBackfillBatchDelayMs, getVibeBackfillBatchSize } from "./tasteConfig";
+import { applyVibeOverride } from "./vibeOverrides";
+
+// Jobs being worked in this process. The database row is the source of truth
+// for progress, so a job interrupted by a restart can pick up at its cursor.
+const activeRuns = new Set<string>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toVector(raw: unknown): Record<string, number> {
+  if (!raw || typeof raw !== "object") return {};
+  return Object.fromEntries(Object.entries(raw as Record<string, unknown>).map(([k, v]) => [k, Number(v) || 0]));
+}
+
+// Total variation distance between two vibe vectors: 0 when identical, 1
+// when they share nothing.
+function vectorShift(before: Record<string, number>, after: Record<string, number>): number {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  let sum = 0;
+  for (const key of Array.from(keys)) sum += Math.abs((after[key] || 0) - (before[key] || 0));
+  return Number((sum / 2).toFixed(4));
+}
+
+function topVibeOf(top: unknown): string | null {
+  return Array.isArray(top) && top[0]?.vibe ? String(top[0].vibe) : null;
+}
+
+type BackfillContext = {
+  registries: Map<number, VibeRegistry>;
+  idfs: Map<number, ListingTermIdf>;
+};
+
+async function resolveRegistry(context: BackfillContext, organizationId: number | null) {
+  const key = organizationId ?? 0;
+  let registry = context.registries.get(key);
+  if (!registry) {
+    registry = await getVibeRegistry(organizationId);
+    context.registries.set(key, registry);
+  }
+  let idf = context.idfs.get(key);
+  if (!idf) {
+    idf = await getListingTermIdf(registry);
+    context.idfs.set(key, idf);
+  }
+  return { registry, idf };
+}
+
+async function recomputeProperty(job: VibeBackfillJob, property: Property, context: BackfillContext) {
+  const { registry, idf } = await resolveRegistry(context, property.organizationId);
+  const photos = await storage.getListingPhotos(property.id);
+  const result = computeListingVibeFromStoredPhotos(
+    { description: property.description, photosText: (property.images || []).join(" ") },
+    photos,
+    registry,
+    { idf }
+  );
+  const fields = await applyVibeOverride(property, toPropertyVibeFields(result));
+  await storage.updateProperty(property.id, fields);
+
+  // Leads have no closed state yet, so every lead on the listing is refreshed.
+  const leads = await storage.getLeadsByProperty(property.id);
+  for (const lead of leads) {
+    await storage.updateLead(lead.id, {
+      listingVector: fields.vibeVector as any,
+      topListingVibes: fields.vibeTop as any,
+    });
+  }
+
+  const beforeTop = topVibeOf(property.vibeTop) ?? (property.vibeTag !== "Unclassified" ? property.vibeTag : null);
+  const topVibeChanged = beforeTop !== fields.vibeTag && !(beforeTop === null && fields.vibeTag === "Unclassified");
+  await storage.createVibeBackfillDiff({
+    jobId: job.id,
+    propertyId: property.id,
+    fromVersion: property.vibeVersion,
+    toVersion: fields.vibeVersion,
+    beforeTop: property.vibeTop ?? null,
+    afterTop: fields.vibeTop,
+    beforeVector: property.vibeVector ?? null,
+    afterVector: fields.vibeVector,
+    shift: vectorShift(toVector(property.vibeVector), fields.vibeVector),
+    topVibeChanged,
+    leadsUpdated: leads.length,
+  });
+
+  return { moved: topVibeChanged, leadsUpdated: leads.length };
+}
+
+// Second chance for properties that threw during the main pass. Ones that
+// fail again stay recorded on the job.
+async function retryFailedProperties(job: VibeBackfillJob, context: BackfillContext): Promise<VibeBackfillJob | undefined> {
+  const ids = job.failedPropertyIds ?? [];
+  const properties = await storage.getPropertiesByIds(ids);
+  let { succeeded, failedCount, moved, leadsUpdated } = job;
+  const stillFailing: number[] = [];
+  for (const property of properties) {
+    if (property.vibeVersion === job.targetVersion) {
+      failedCount -= 1;
+      continue;
+    }
+    try {
+      const outcome = await recomputeProperty(job, property, context);
+      succeeded += 1;
+      failedCount -= 1;
+      if (outcome.moved) moved += 1;
+      leadsUpdated += outcome.leadsUpdated;
+    } catch (error: any) {
+      stillFailing.push(property.id);
+      console.warn(`[VibeBackfill] Property ${property.id} failed again: ${error?.message ?? error}`);
+    }
+  }
+  // Properties deleted since the failure no longer count against the job.
+  failedCount -= ids.length - properties.length;
+  return storage.updateVibeBackfillJob(job.id, {
+    succeeded,
+    failedCount: Math.max(0, failedCount),
+    moved,
+    leadsUpdated,
+    failedPropertyIds: stillFailing,
+  });
+}
+
+async function runBackfill(jobId: string): Promise<void> {
+  if (activeRuns.has(jobId)) return;
+  activeRuns.add(jobId);
+  const context: BackfillContext = { registries: new Map(), idfs: new Map() };
+  let retried = false;
+
+  try {
+    let job = await storage.updateVibeBackfillJob(jobId, { status: "running", error: null });
+    // A resume that lands while this loop is sleeping sets the job back to
+    // "queued"; treat that as "keep going".
+    while (job && (job.status === "running" || job.status === "queued")) {
+      if (job.status === "queued") {
+        job = await storage.updateVibeBackfillJob(jobId, { status: "running" });
+        if (!job) return;
+      }
+      const batch = await storage.getStaleProperties(job.targetVersion, job.cursor, getVibeBackfillBatchSize());
+      if (batch.length === 0) {
+        if (!retried && (job.failedPropertyIds ?? []).length > 0) {
+          retried = true;
+          job = await retryFailedProperties(job, context);
+          if (!job) return;
+        }
+        await storage.updateVibeBackfillJob(jobId, { status: "done" });
+        console.log(`[VibeBackfill] Job ${jobId} done: ${job.succeeded} recomputed, ${job.moved} moved, ${job.failedCount} failed`);
+        return;
+      }
+
+      let { processed, succeeded, failedCount, moved, leadsUpdated } = job;
+      const failedPropertyIds = [...(job.failedPropertyIds ?? [])];
+      for (const property of batch) {
+        try {
+          const outcome = await recomputeProperty(job, property, context);
+          succeeded += 1;
+          if (outcome.moved) moved += 1;
+          leadsUpdated += outcome.leadsUpdated;
+        } catch (error: any) {
+          failedCount += 1;
+          failedPropertyIds.push(property.id);
+          console.warn(`[VibeBackfill] Property ${property.id} failed: ${error?.message ?? error}`);
+        }
+        processed += 1;
+      }
+
+      await storage.updateVibeBackfillJob(jobId, {
+        processed,
+        succeeded,
+        failedCount,
+        moved,
+        leadsUpdated,
+        failedPropertyIds,
+        cursor: batch[batch.length - 1].id,
+      });
+      await sleep(getVibeBackfillBatchDelayMs());
+      // Re-read so a pause requested mid-batch is honoured.
+      job = await storage.getVibeBackfillJob(jobId);
+    }
+  } catch (error: any) {
+    console.error(`[VibeBackfill] Job ${jobId} failed: ${error?.message ?? error}`);
+    await storage.updateVibeBackfillJob(jobId, { status: "failed", error: error?.message ?? String(error) }).catch(() => {});
+  } finally {
+    activeRuns.delete(jobId);
+  }
+
+  // A resume that arrived after the loop's last status read found this run
+  // still active and left the job queued; pick it up now.
+  const latest = await storage.getVibeBackfillJob(jobId).catch(() => undefined);
+  if (latest?.status === "queued") void runBackfill(jobId);
+}
+
+export async function startVibeBackfill(startedBy: string | null): Promise<VibeBackfillJob> {
+  const [active] = await storage.getVibeBackfillJobs({ statuses: ["queued", "running"], limit: 1 });
+  if (active) throw new Error(`Backfill ${active.id} is already ${active.status}`);
+
+  const job = await storage.createVibeBackfillJob({
+    id: crypto.randomUUID(),
+    targetVersion: LISTING_VIBE_ALGORITHM_VERSION,
+    status: "queued",
+    total: await storage.countStaleProperties(LISTING_VIBE_ALGORITHM_VERSION),
+    startedBy,
+  });
+  void runBackfill(job.id);
+  return job;
+}
+
+export async function pauseVibeBackfill(jobId: string): Promise<VibeBackfillJob | undefined> {
+  const job = await storage.getVibeBackfillJob(jobId);
+  if (!job || (job.status !== "running" && job.status !== "queued")) return job;
+  return storage.updateVibeBackfillJob(jobId, { status: "paused" });
+}
+
+export async function resumeVibeBackfill(jobId: string): Promise<VibeBackfillJob | undefined> {
+  const job = await storage.getVibeBackfillJob(jobId);
+  if (!job || job.status === "done") return job;
+  if (job.targetVersion !== LISTING_VIBE_ALGORITHM_VERSION) {
+    throw new Error(`Backfill targets ${job.targetVersion}; start a new one for ${LISTING_VIBE_ALGORITHM_VERSION}`);
+  }
+  const updated = await storage.updateVibeBackfillJob(jobId, { status: "queued" });
+  void runBackfill(jobId);
+  return updated;
+}
+
+// Picks up jobs that were mid-run when the server last stopped.
+export async function resumeInterruptedVibeBackfills(): Promise<void> {
+  try {
+    const jobs = await storage.getVibeBackfillJobs({ statuses: ["queued", "running"] });
+    for (const job of jobs) {
+      if (job.targetVersion !== LISTING_VIBE_ALGORITHM_VERSION) {
+        await storage.updateVibeBackfillJob(job.id, { status: "failed", error: "Algorithm version changed before completion" });
+        continue;
+      }
+      console.log(`[VibeBackfill] Resuming job ${job.id} after property ${job.cursor}`);
+      void runBackfill(job.id);
+    }
+  } catch (error: any) {
+    console.warn(`[VibeBackfill] Could not resume backfills: ${error?.message ?? error}`);
+  }
+}
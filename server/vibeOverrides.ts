@@ -0,0 +1,94 @@
+import type { Property, VibeOverride } from "@shared/schema";
+import { storage } from "./storage";
+import type { PropertyVibeFields } from "./listingVibeEnsemble";
+
+type AutoVibe = VibeOverride["auto"];
+
+function snapshotAuto(source: {
+  vibeTag: string;
+  vibeVector: unknown;
+  vibeTop: unknown;
+  vibeVersion: string | null;
+}): AutoVibe {
+  return {
+    vibeTag: source.vibeTag,
+    vibeVector: (source.vibeVector as AutoVibe["vibeVector"]) ?? null,
+    vibeTop: Array.isArray(source.vibeTop) ? (source.vibeTop as AutoVibe["vibeTop"]) : null,
+    vibeVersion: source.vibeVersion,
+  };
+}
+
+// Pinned vibes share the vector equally, in the order the agent chose them.
+function pinnedFields(vibes: string[]) {
+  const share = Math.round((1 / vibes.length) * 1000) / 1000;
+  return {
+    vibeTag: vibes[0],
+    vibeVector: Object.fromEntries(vibes.map((vibe) => [vibe, share])),
+    vibeTop: vibes.map((vibe) => ({ vibe, score: share })),
+  };
+}
+
+async function logExample(
+  property: Property,
+  source: "agent" | "recompute",
+  pin: { vibes: string[]; reason: string; agentId: string | null },
+  auto: AutoVibe
+) {
+  const predictedTop = auto.vibeTop?.[0]?.vibe ?? (auto.vibeTag !== "Unclassified" ? auto.vibeTag : null);
+  await storage.createVibeOverrideExample({
+    propertyId: property.id,
+    agentId: pin.agentId,
+    source,
+    pinnedVibes: pin.vibes,
+    reason: pin.reason,
+    algorithmVersion: auto.vibeVersion,
+    predictedTop,
+    predictedVector: auto.vibeVector,
+    agrees: !!predictedTop && pin.vibes.includes(predictedTop),
+  });
+}
+
+// Applies an existing pin to freshly computed vibe fields so retag, re-import
+// and backfill runs never overwrite an agent's choice. The new algorithm output
+// is kept under `auto` and scored against the pin.
+export async function applyVibeOverride(
+  property: Property | undefined,
+  fields: PropertyVibeFields
+): Promise<PropertyVibeFields & { vibeOverride?: VibeOverride }> {
+  const pin = property?.vibeOverride;
+  if (!property || !pin) return fields;
+
+  const auto = snapshotAuto(fields);
+  await logExample(property, "recompute", pin, auto);
+  return {
+    ...fields,
+    ...pinnedFields(pin.vibes),
+    vibeOverride: { ...pin, auto },
+  };
+}
+
+export async function pinListingVibes(
+  property: Property,
+  pin: { vibes: string[]; reason: string },
+  agentId: string | null
+): Promise<Property | undefined> {
+  const auto = property.vibeOverride?.auto ?? snapshotAuto(property);
+  const vibes = Array.from(new Set(pin.vibes));
+  await logExample(property, "agent", { vibes, reason: pin.reason, agentId }, auto);
+
+  return storage.updateProperty(property.id, {
+    ...pinnedFields(vibes),
+    vibeOverride: { vibes, reason: pin.reason, agentId, pinnedAt: new Date().toISOString(), auto },
+  });
+}
+
+export async function clearVibeOverride(property: Property): Promise<Property | undefined> {
+  const auto = property.vibeOverride?.auto;
+  if (!auto) return property;
+  return storage.updateProperty(property.id, {
+    vibeTag: auto.vibeTag,
+    vibeVector: auto.vibeVector,
+    vibeTop: auto.vibeTop,
+    vibeOverride: null,
+  });
+}
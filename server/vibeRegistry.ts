@@ -0,0 +1,74 @@
+import { DEFAULT_VIBE_REGISTRY, type VibeDefinition, type VibeRegistry } from "@shared/tasteAlgorithm";
+import type { VibeDefinitionRow } from "@shared/schema";
+import { storage } from "./storage";
+
+const CACHE_TTL_MS = 60_000;
+
+const registryCache = new Map<number, { registry: VibeRegistry; expiresAt: number }>();
+
+export function toVibeDefinition(row: VibeDefinitionRow): VibeDefinition {
+  return {
+    keywords: row.keywords || [],
+    visualCues: row.visualCues || [],
+    psychology: row.psychology || [],
+    copyHook: row.copyHook || "",
+    forbiddenChanges: row.forbiddenChanges || [],
+    stagingStyleRules: {
+      do: row.stagingDo || [],
+      dont: row.stagingDont || [],
+    },
+    promptSeeds: row.promptSeeds || [],
+  };
+}
+
+export function buildVibeRegistry(rows: VibeDefinitionRow[]): VibeRegistry {
+  if (rows.length === 0) return DEFAULT_VIBE_REGISTRY;
+  const vibes = [...DEFAULT_VIBE_REGISTRY.vibes];
+  const definitions: Record<string, VibeDefinition> = { ...DEFAULT_VIBE_REGISTRY.definitions };
+  for (const row of rows) {
+    if (!vibes.includes(row.name)) vibes.push(row.name);
+    definitions[row.name] = toVibeDefinition(row);
+  }
+  return { vibes, definitions };
+}
+
+export async function getVibeRegistry(organizationId?: number | null): Promise<VibeRegistry> {
+  if (!organizationId) return DEFAULT_VIBE_REGISTRY;
+
+  const cached = registryCache.get(organizationId);
+  if (cached && cached.expiresAt > Date.now()) return cached.registry;
+
+  try {
+    const rows = await storage.getVibeDefinitions(organizationId);
+    const registry = buildVibeRegistry(rows);
+    registryCache.set(organizationId, { registry, expiresAt: Date.now() + CACHE_TTL_MS });
+    return registry;
+  } catch (error: any) {
+    console.warn(`[VibeRegistry] Failed to load vibes for org ${organizationId}: ${error?.message ?? error}`);
+    return DEFAULT_VIBE_REGISTRY;
+  }
+}
+
+export async function getVibeRegistryForAgent(agentId: string | null | undefined): Promise<VibeRegistry> {
+  const numericId = Number(agentId);
+  if (!Number.isInteger(numericId) || numericId <= 0) return DEFAULT_VIBE_REGISTRY;
+  try {
+    const agent = await storage.getAgent(numericId);
+    return getVibeRegistry(agent?.organizationId ?? null);
+  } catch (error: any) {
+    console.warn(`[VibeRegistry] Failed to resolve agent ${agentId}: ${error?.message ?? error}`);
+    return DEFAULT_VIBE_REGISTRY;
+  }
+}
+
+export async function getVibeRegistryMap(
+  organizationIds: Array<number | null | undefined>
+): Promise<Map<number, VibeRegistry>> {
+  const unique = Array.from(new Set(organizationIds.filter((id): id is number => typeof id === "number" && id > 0)));
+  const entries = await Promise.all(unique.map(async (id) => [id, await getVibeRegistry(id)] as const));
+  return new Map(entries);
+}
+
+export function invalidateVibeRegistry(organizationId: number): void {
+  registryCache.delete(organizationId);
+}
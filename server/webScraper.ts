@@ -1,6 +1,9 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
 import { chromium, type Page } from "playwright";
-import { classifyPropertyImage } from "./geminiTagger";
+import { computeListingVibeEnsemble, toPropertyVibeFields } from "./listingVibeEnsemble";
+import { getListingTermIdf } from "./listingVibeCorpus";
+import { saveListingPhotos } from "./listingPhotos";
+import { getVibeRegistry } from "./vibeRegistry";
 import { storage } from "./storage";
 
 interface ExtractedProperty {
@@ -478,12 +481,21 @@ export async function importFromUrl(
       toListingDraft(page.finalUrl || websiteUrl, item, importImages),
     );
 
+    const vibeRegistry = await getVibeRegistry(organizationId);
+    const vibeInputs = listingDrafts.map((listing) => ({
+      description: [listing.title, listing.description].filter(Boolean).join(". "),
+      photosText: listing.images.join(" "),
+    }));
+    const termIdf = await getListingTermIdf(vibeRegistry, vibeInputs);
     let importedCount = 0;
-    for (const listing of listingDrafts) {
+    for (const [index, listing] of Array.from(listingDrafts.entries())) {
       try {
-        const tagSource = listing.images[0] || listing.description || listing.title || "modern home";
-        const vibeTag = await classifyPropertyImage(tagSource);
-        await storage.createProperty({
+        const ensemble = await computeListingVibeEnsemble(vibeInputs[index], listing.images, vibeRegistry, {
+          idf: termIdf,
+        });
+        const vibeFields = toPropertyVibeFields(ensemble);
+        const vibeTag = vibeFields.vibeTag;
+        const property = await storage.createProperty({
           title: listing.title || "Imported Property",
           description: listing.description || `Imported from ${websiteUrl}`,
           price: listing.price || 500000,
@@ -494,11 +506,12 @@ export async function importFromUrl(
           images: listing.images,
           agentId,
           status: "active",
+          ...vibeFields,
           vibe: vibeTag === "Unclassified" ? "Classicist" : vibeTag,
-          vibeTag,
           tags: [],
           organizationId,
         });
+        await saveListingPhotos(property.id, listing.images, ensemble.photos);
         importedCount++;
         console.log(`[WebScraper] Imported: ${listing.title || "Imported Property"} [${vibeTag}]`);
       } catch (error: any) {
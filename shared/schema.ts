@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, json, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, json, timestamp, boolean, unique, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -35,6 +35,21 @@ export const insertAgentSchema = createInsertSchema(agents);
 export type InsertAgent = z.infer<typeof insertAgentSchema>;
 export type Agent = typeof agents.$inferSelect;
 
+// An agent's pinned vibes. `auto` keeps the latest algorithm output so the
+// listing can fall back to it when the pin is cleared.
+export type VibeOverride = {
+  vibes: string[];
+  reason: string;
+  agentId: string | null;
+  pinnedAt: string;
+  auto: {
+    vibeTag: string;
+    vibeVector: Record<string, number> | null;
+    vibeTop: Array<{ vibe: string; score: number }> | null;
+    vibeVersion: string | null;
+  };
+};
+
 export const properties = pgTable("properties", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   title: text("title").notNull(),
@@ -54,6 +69,7 @@ export const properties = pgTable("properties", {
   vibeTop: json("vibe_top"),
   vibeRationale: json("vibe_rationale"),
   vibeVersion: text("vibe_version"),
+  vibeOverride: json("vibe_override").$type<VibeOverride>(),
   tags: json("tags").$type<string[]>().notNull().default([]),
   organizationId: integer("organization_id"),
 });
@@ -85,14 +101,23 @@ export const leads = pgTable("leads", {
   topBuyerVibes: json("top_buyer_vibes"),
   topListingVibes: json("top_listing_vibes"),
   matchScore: integer("match_score").notNull().default(0),
+  matchBreakdown: json("match_breakdown"),
   talkTrack: text("talk_track"),
   avoidList: json("avoid_list"),
+  householdId: text("household_id"),
+  memberAvoidLists: json("member_avoid_lists"),
+  // Swipe that created the lead, so undoing it can retract the lead.
+  swipeEventId: text("swipe_event_id"),
+  email: text("email"),
+  // When the buyer agreed to be contacted; copied from the buyer on claim.
+  contactConsentAt: timestamp("contact_consent_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertPropertySchema = createInsertSchema(properties, {
   images: z.array(z.string()).default([]),
   tags: z.array(z.string()).default([]),
+  vibeOverride: z.custom<VibeOverride>().nullable().optional(),
 });
 
 export const insertLeadSchema = createInsertSchema(leads).omit({
@@ -118,6 +143,10 @@ export const notifications = pgTable("notifications", {
   content: text("content").notNull(),
   priority: text("priority").notNull(),
   readStatus: boolean("read_status").notNull().default(false),
+  swipeEventId: text("swipe_event_id"),
+  // Set when the swipe behind the notification is undone; voided
+  // notifications are hidden from the agent.
+  voidedAt: timestamp("voided_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -157,6 +186,12 @@ export const swipes = pgTable("swipes", {
 
 export const buyers = pgTable("buyers", {
   id: text("id").primaryKey(),
+  name: text("name"),
+  email: text("email"),
+  phone: text("phone"),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  phoneVerifiedAt: timestamp("phone_verified_at"),
+  contactConsentAt: timestamp("contact_consent_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -167,7 +202,7 @@ export const swipeEvents = pgTable("swipe_events", {
   action: text("action").notNull(),
   dwellMs: integer("dwell_ms").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [index("swipe_events_buyer_listing_idx").on(table.buyerId, table.listingId)]);
 
 export const insertSwipeSchema = createInsertSchema(swipes).omit({
   createdAt: true,
@@ -186,15 +221,89 @@ export type Buyer = typeof buyers.$inferSelect;
 export type InsertSwipeEvent = z.infer<typeof insertSwipeEventSchema>;
 export type SwipeEvent = typeof swipeEvents.$inferSelect;
 
+export const buyerProfileSnapshots = pgTable("buyer_profile_snapshots", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  buyerId: text("buyer_id").notNull(),
+  swipeCount: integer("swipe_count").notNull(),
+  vector: json("vector").notNull(),
+  topVibes: json("top_vibes").notNull(),
+  confidence: real("confidence").notNull().default(0),
+  trigger: text("trigger").notNull(),
+  driftFrom: text("drift_from"),
+  driftTo: text("drift_to"),
+  // Swipe that triggered the snapshot; undoing it removes the snapshot.
+  swipeEventId: text("swipe_event_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  // An undo brings the swipe count back down, so the same milestone can be
+  // reached twice; only the first one is kept.
+  uniqueIndex("buyer_profile_snapshots_milestone_idx")
+    .on(table.buyerId, table.swipeCount)
+    .where(sql`${table.trigger} = 'milestone'`),
+]);
+
+export const insertBuyerProfileSnapshotSchema = createInsertSchema(buyerProfileSnapshots).omit({
+  createdAt: true,
+});
+
+export type InsertBuyerProfileSnapshot = z.infer<typeof insertBuyerProfileSnapshotSchema>;
+export type BuyerProfileSnapshot = typeof buyerProfileSnapshots.$inferSelect;
+
+export const households = pgTable("households", {
+  id: text("id").primaryKey(),
+  name: text("name"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const householdMembers = pgTable("household_members", {
+  buyerId: text("buyer_id").primaryKey(),
+  householdId: text("household_id").notNull(),
+  joinedAt: timestamp("joined_at").defaultNow(),
+});
+
+export const insertHouseholdSchema = createInsertSchema(households).omit({
+  createdAt: true,
+});
+export const insertHouseholdMemberSchema = createInsertSchema(householdMembers).omit({
+  joinedAt: true,
+});
+
+export type InsertHousehold = z.infer<typeof insertHouseholdSchema>;
+export type Household = typeof households.$inferSelect;
+export type InsertHouseholdMember = z.infer<typeof insertHouseholdMemberSchema>;
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+
+// Single-use code a member hands to someone so they can join the household.
+export const householdInvites = pgTable("household_invites", {
+  code: text("code").primaryKey(),
+  householdId: text("household_id").notNull(),
+  createdBy: text("created_by").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedBy: text("accepted_by"),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type InsertHouseholdInvite = typeof householdInvites.$inferInsert;
+export type HouseholdInvite = typeof householdInvites.$inferSelect;
+
 export const verificationCodes = pgTable("verification_codes", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  // Destination of the code: an email address, or a phone number when
+  // channel is "phone".
   email: text("email").notNull(),
+  channel: text("channel").notNull().default("email"),
+  // Set for buyer claim codes so only the requesting buyer can redeem them.
+  buyerId: text("buyer_id"),
   code: text("code").notNull(),
   expiresAt: timestamp("expires_at").notNull(),
   used: boolean("used").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export type InsertVerificationCode = typeof verificationCodes.$inferInsert;
+export type VerificationCode = typeof verificationCodes.$inferSelect;
+
 export const stagingResults = pgTable("staging_results", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   propertyId: integer("property_id").notNull(),
@@ -253,6 +362,39 @@ export type StagingJob = typeof stagingJobs.$inferSelect;
 export type InsertStagingAsset = z.infer<typeof insertStagingAssetSchema>;
 export type StagingAsset = typeof stagingAssets.$inferSelect;
 
+export const vibeDefinitions = pgTable("vibe_definitions", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  organizationId: integer("organization_id").notNull(),
+  name: text("name").notNull(),
+  keywords: json("keywords").$type<string[]>().notNull().default([]),
+  visualCues: json("visual_cues").$type<string[]>().notNull().default([]),
+  psychology: json("psychology").$type<string[]>().notNull().default([]),
+  copyHook: text("copy_hook").notNull().default(""),
+  forbiddenChanges: json("forbidden_changes").$type<string[]>().notNull().default([]),
+  stagingDo: json("staging_do").$type<string[]>().notNull().default([]),
+  stagingDont: json("staging_dont").$type<string[]>().notNull().default([]),
+  promptSeeds: json("prompt_seeds").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique("vibe_definitions_org_name_unique").on(table.organizationId, table.name)]);
+
+export const insertVibeDefinitionSchema = createInsertSchema(vibeDefinitions, {
+  name: z.string().trim().min(1).max(40),
+  keywords: z.array(z.string()).default([]),
+  visualCues: z.array(z.string()).default([]),
+  psychology: z.array(z.string()).default([]),
+  forbiddenChanges: z.array(z.string()).default([]),
+  stagingDo: z.array(z.string()).default([]),
+  stagingDont: z.array(z.string()).default([]),
+  promptSeeds: z.array(z.string()).default([]),
+}).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertVibeDefinition = z.infer<typeof insertVibeDefinitionSchema>;
+export type VibeDefinitionRow = typeof vibeDefinitions.$inferSelect;
+
 export const loginSchema = z.object({
   email: z.string().email(),
   password: z.string().min(6),
@@ -274,10 +416,255 @@ export const verifyCodeSchema = z.object({
   code: z.string().length(6),
 });
 
+export const BUYER_CONTACT_CHANNELS = ["email", "phone"] as const;
+export type BuyerContactChannel = (typeof BUYER_CONTACT_CHANNELS)[number];
+
+export const buyerClaimStartSchema = z.object({
+  channel: z.enum(BUYER_CONTACT_CHANNELS),
+  contact: z.string().trim().min(3).max(200),
+});
+
+export const buyerClaimVerifySchema = buyerClaimStartSchema.extend({
+  code: z.string().length(6),
+  name: z.string().trim().min(1).max(120).optional(),
+  consent: z.literal(true, { errorMap: () => ({ message: "Consent to be contacted is required" }) }),
+});
+
+export const buyerCriteriaSchema = z.object({
+  budgetMin: z.number().min(0).nullable().optional(),
+  budgetMax: z.number().min(0).nullable().optional(),
+  bedrooms: z.number().int().min(0).nullable().optional(),
+  minSqft: z.number().min(0).nullable().optional(),
+  maxSqft: z.number().min(0).nullable().optional(),
+  locations: z.array(z.string()).nullable().optional(),
+});
+
 export const swipeSchema = z.object({
   propertyId: z.number(),
   direction: z.enum(["left", "right"]),
   userName: z.string().optional(),
   matchScore: z.number().min(0).max(100),
   matchedTags: z.array(z.string()).optional(),
+  criteria: buyerCriteriaSchema.optional(),
 });
+
+export const LISTING_ROOM_TYPES = [
+  "kitchen",
+  "living",
+  "dining",
+  "bedroom",
+  "bathroom",
+  "office",
+  "exterior",
+  "other",
+] as const;
+
+export type ListingRoomType = typeof LISTING_ROOM_TYPES[number];
+
+export const listingPhotos = pgTable("listing_photos", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull(),
+  url: text("url").notNull(),
+  position: integer("position").notNull().default(0),
+  roomType: text("room_type").notNull().default("other"),
+  isEmpty: boolean("is_empty").notNull().default(false),
+  vibeVector: json("vibe_vector").$type<Record<string, number>>(),
+  topVibe: text("top_vibe"),
+  confidence: real("confidence"),
+  qualityScore: real("quality_score"),
+  width: integer("width"),
+  height: integer("height"),
+  classifiedAt: timestamp("classified_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("listing_photos_property_url_unique").on(table.propertyId, table.url)]);
+
+export const insertListingPhotoSchema = createInsertSchema(listingPhotos).omit({
+  createdAt: true,
+});
+
+export type InsertListingPhoto = z.infer<typeof insertListingPhotoSchema>;
+export type ListingPhoto = typeof listingPhotos.$inferSelect;
+
+export const vibeBackfillJobs = pgTable("vibe_backfill_jobs", {
+  id: text("id").primaryKey(),
+  targetVersion: text("target_version").notNull(),
+  status: text("status").notNull().default("queued"),
+  total: integer("total").notNull().default(0),
+  processed: integer("processed").notNull().default(0),
+  succeeded: integer("succeeded").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  moved: integer("moved").notNull().default(0),
+  leadsUpdated: integer("leads_updated").notNull().default(0),
+  // Highest property id handled so far; a resumed job continues after it.
+  cursor: integer("cursor").notNull().default(0),
+  // Properties whose recompute threw; retried once the cursor reaches the end.
+  failedPropertyIds: json("failed_property_ids").$type<number[]>().notNull().default([]),
+  startedBy: text("started_by"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const vibeBackfillDiffs = pgTable("vibe_backfill_diffs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  jobId: text("job_id").notNull(),
+  propertyId: integer("property_id").notNull(),
+  fromVersion: text("from_version"),
+  toVersion: text("to_version").notNull(),
+  beforeTop: json("before_top"),
+  afterTop: json("after_top"),
+  beforeVector: json("before_vector"),
+  afterVector: json("after_vector"),
+  shift: real("shift").notNull().default(0),
+  topVibeChanged: boolean("top_vibe_changed").notNull().default(false),
+  leadsUpdated: integer("leads_updated").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertVibeBackfillJobSchema = createInsertSchema(vibeBackfillJobs, {
+  failedPropertyIds: z.array(z.number().int()).optional(),
+}).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+export const insertVibeBackfillDiffSchema = createInsertSchema(vibeBackfillDiffs).omit({
+  createdAt: true,
+});
+
+export type InsertVibeBackfillJob = z.infer<typeof insertVibeBackfillJobSchema>;
+export type VibeBackfillJob = typeof vibeBackfillJobs.$inferSelect;
+export type InsertVibeBackfillDiff = z.infer<typeof insertVibeBackfillDiffSchema>;
+export type VibeBackfillDiff = typeof vibeBackfillDiffs.$inferSelect;
+
+// Term IDF frozen the first time an algorithm version scores listings with a
+// given registry, so every listing stamped with that version used the same
+// weights. Bump LISTING_VIBE_ALGORITHM_VERSION to take a fresh snapshot.
+export const listingIdfSnapshots = pgTable("listing_idf_snapshots", {
+  // `${algorithmVersion}:${registryKey}`
+  id: text("id").primaryKey(),
+  algorithmVersion: text("algorithm_version").notNull(),
+  // Hash of the registry's term list.
+  registryKey: text("registry_key").notNull(),
+  idf: json("idf").$type<Record<string, number>>().notNull(),
+  documentCount: integer("document_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type InsertListingIdfSnapshot = typeof listingIdfSnapshots.$inferInsert;
+export type ListingIdfSnapshot = typeof listingIdfSnapshots.$inferSelect;
+
+export const vibeOverrideExamples = pgTable("vibe_override_examples", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull(),
+  agentId: text("agent_id"),
+  // "agent" when an agent pins vibes, "recompute" when a newer algorithm run
+  // is scored against an existing pin.
+  source: text("source").notNull().default("agent"),
+  pinnedVibes: json("pinned_vibes").$type<string[]>().notNull().default([]),
+  reason: text("reason"),
+  algorithmVersion: text("algorithm_version"),
+  predictedTop: text("predicted_top"),
+  predictedVector: json("predicted_vector"),
+  agrees: boolean("agrees").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertVibeOverrideExampleSchema = createInsertSchema(vibeOverrideExamples, {
+  pinnedVibes: z.array(z.string()).default([]),
+}).omit({
+  createdAt: true,
+});
+
+export const vibeOverrideRequestSchema = z.object({
+  vibes: z.array(z.string().trim().min(1)).min(1).max(3),
+  reason: z.string().trim().min(3).max(500),
+});
+
+export type InsertVibeOverrideExample = z.infer<typeof insertVibeOverrideExampleSchema>;
+export type VibeOverrideExample = typeof vibeOverrideExamples.$inferSelect;
+
+export const listingCopyVariants = pgTable("listing_copy_variants", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  propertyId: integer("property_id").notNull(),
+  vibe: text("vibe").notNull(),
+  headline: text("headline").notNull(),
+  description: text("description").notNull(),
+  socialCaption: text("social_caption").notNull(),
+  // "template" or the name of the LLM provider that drafted it.
+  provider: text("provider").notNull().default("template"),
+  agentId: text("agent_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique("listing_copy_variants_property_vibe_unique").on(table.propertyId, table.vibe)]);
+
+export const insertListingCopyVariantSchema = createInsertSchema(listingCopyVariants).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const listingCopyRequestSchema = z
+  .object({
+    vibe: z.string().trim().min(1).optional(),
+    buyerId: z.string().trim().min(1).optional(),
+    provider: z.enum(["template", "llm"]).optional(),
+  })
+  .refine((value) => !!value.vibe !== !!value.buyerId, { message: "Provide either a vibe or a buyerId" });
+
+export const saveListingCopyVariantSchema = z.object({
+  headline: z.string().trim().min(3).max(120),
+  description: z.string().trim().min(10).max(2000),
+  socialCaption: z.string().trim().min(3).max(300),
+  provider: z.string().trim().min(1).default("template"),
+});
+
+export type InsertListingCopyVariant = z.infer<typeof insertListingCopyVariantSchema>;
+export type ListingCopyVariant = typeof listingCopyVariants.$inferSelect;
+
+export const savedHomes = pgTable("saved_homes", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  buyerId: text("buyer_id").notNull(),
+  listingId: integer("listing_id").notNull(),
+  note: text("note"),
+  // Lower comes first; new saves go to the end of the list.
+  priority: integer("priority").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique("saved_homes_buyer_listing_unique").on(table.buyerId, table.listingId)]);
+
+export const insertSavedHomeSchema = createInsertSchema(savedHomes).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const savedHomeNoteSchema = z.object({
+  note: z.string().trim().max(1000).nullable(),
+});
+
+export const savedHomeOrderSchema = z.object({
+  listingIds: z.array(z.number().int().positive()).min(1).max(500),
+});
+
+export type InsertSavedHome = z.infer<typeof insertSavedHomeSchema>;
+export type SavedHome = typeof savedHomes.$inferSelect;
+
+export type TasteShareVibe = { vibe: string; percentage: number; hook: string };
+
+// A public snapshot of a buyer's top vibes. The id is the share token, so the
+// buyer id never leaves the server.
+export const tasteShares = pgTable("taste_shares", {
+  id: text("id").primaryKey(),
+  buyerId: text("buyer_id").notNull(),
+  topVibes: json("top_vibes").$type<TasteShareVibe[]>().notNull(),
+  swipeCount: integer("swipe_count").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("taste_shares_buyer_idx").on(table.buyerId)]);
+
+export const insertTasteShareSchema = createInsertSchema(tasteShares, {
+  topVibes: z.custom<TasteShareVibe[]>(),
+}).omit({
+  createdAt: true,
+});
+
+export type InsertTasteShare = z.infer<typeof insertTasteShareSchema>;
+export type TasteShare = typeof tasteShares.$inferSelect;
@@ -12,7 +12,7 @@ export const VIBES = [
 export type Vibe = typeof VIBES[number];
 export type VibeOrUnclassified = Vibe | "Unclassified";
 
-type VibeDefinition = {
+export type VibeDefinition = {
   keywords: string[];
   visualCues: string[];
   psychology: string[];
@@ -146,6 +146,30 @@ export const VIBE_DEFINITIONS: Record<Vibe, VibeDefinition> = {
   },
 };
 
+export type VibeVector = Record<string, number>;
+
+export type VibeRegistry = {
+  vibes: readonly string[];
+  definitions: Record<string, VibeDefinition>;
+};
+
+export const DEFAULT_VIBE_REGISTRY: VibeRegistry = {
+  vibes: VIBES,
+  definitions: VIBE_DEFINITIONS,
+};
+
+export function isRegisteredVibe(value: string | null | undefined, registry: VibeRegistry = DEFAULT_VIBE_REGISTRY): value is string {
+  return !!value && registry.vibes.includes(value);
+}
+
+export function resolveVibeDefinition(
+  vibe: string | null | undefined,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): VibeDefinition | null {
+  if (!isRegisteredVibe(vibe, registry)) return null;
+  return registry.definitions[vibe] ?? null;
+}
+
 const REQUIRED_STAGING_CONSTRAINTS = [
   "interior designer only",
   "no renovation",
@@ -160,10 +184,6 @@ function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
 
-function isVibe(value: string): value is Vibe {
-  return (VIBES as readonly string[]).includes(value);
-}
-
 export function computeTasteProfileFromSwipes(swipedVibes: Vibe[]): {
   counts: Record<Vibe, number>;
   percentages: Record<Vibe, number>;
@@ -193,10 +213,11 @@ export function computeTasteProfileFromSwipes(swipedVibes: Vibe[]): {
 
 export function computeTasteScore(
   tasteProfileCounts: Record<string, number> | undefined,
-  propertyVibe: string | null | undefined
+  propertyVibe: string | null | undefined,
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
 ): number {
   if (!tasteProfileCounts || !propertyVibe || propertyVibe === "Unclassified") return 0;
-  if (!isVibe(propertyVibe)) return 0;
+  if (!isRegisteredVibe(propertyVibe, registry)) return 0;
 
   const total = Object.values(tasteProfileCounts).reduce(
     (sum, value) => sum + (typeof value === "number" && Number.isFinite(value) ? value : 0),
@@ -213,80 +234,735 @@ export function computeMatchScore(tasteScore: number, recencyBoost = 0): number
   return clamp(Math.round(tasteScore + recencyBoost), 0, 100);
 }
 
-export type BuyerSwipeAction = "like" | "nope" | "save" | "skip";
+// "unsave" is recorded when a buyer takes a home off their saved list.
+export type BuyerSwipeAction = "like" | "nope" | "save" | "skip" | "unsave";
 
 const ACTION_WEIGHTS: Record<BuyerSwipeAction, number> = {
   like: 2,
   save: 4,
   skip: 0.5,
   nope: -1,
+  // Cancels most of the earlier save without outweighing a fresh nope.
+  unsave: -3,
+};
+
+export type BuyerVectorOptions = {
+  halfLifeDays: number;
+  dwellBaselineMs: number;
+  minDwellMultiplier: number;
+  maxDwellMultiplier: number;
+  priorStrength: number;
+  confidenceSwipeScale: number;
+  prior?: Partial<VibeVector> | null;
+  now?: Date;
+};
+
+export const DEFAULT_BUYER_VECTOR_OPTIONS: BuyerVectorOptions = {
+  halfLifeDays: 21,
+  dwellBaselineMs: 4000,
+  minDwellMultiplier: 0.5,
+  maxDwellMultiplier: 2,
+  priorStrength: 4,
+  confidenceSwipeScale: 8,
+};
+
+// Number of distinct vibes a buyer must have been shown before their
+// profile counts as fully varied.
+const CONFIDENCE_VARIETY_TARGET = 4;
+
+export type BuyerVibeEvent = {
+  vibe?: string | null;
+  vibeVector?: Partial<VibeVector> | null;
+  action: BuyerSwipeAction;
+  dwellMs?: number | null;
+  createdAt?: Date | string | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function computeRecencyWeight(createdAt: BuyerVibeEvent["createdAt"], options: BuyerVectorOptions): number {
+  if (!createdAt || options.halfLifeDays <= 0) return 1;
+  const timestamp = new Date(createdAt).getTime();
+  if (!Number.isFinite(timestamp)) return 1;
+  const now = (options.now ?? new Date()).getTime();
+  const ageDays = Math.max(0, now - timestamp) / DAY_MS;
+  return Math.pow(0.5, ageDays / options.halfLifeDays);
+}
+
+function computeDwellWeight(dwellMs: BuyerVibeEvent["dwellMs"], options: BuyerVectorOptions): number {
+  // Missing dwell (older clients, imported events) is treated as neutral.
+  if (!dwellMs || dwellMs <= 0 || options.dwellBaselineMs <= 0) return 1;
+  const multiplier = Math.sqrt(dwellMs / options.dwellBaselineMs);
+  return clamp(multiplier, options.minDwellMultiplier, options.maxDwellMultiplier);
+}
+
+function emptyVector(registry: VibeRegistry): VibeVector {
+  return Object.fromEntries(registry.vibes.map((v) => [v, 0]));
+}
+
+function resolveEventVector(event: BuyerVibeEvent, registry: VibeRegistry): VibeVector | null {
+  if (event.vibeVector && typeof event.vibeVector === "object") {
+    const shares = Object.fromEntries(
+      registry.vibes.map((v) => {
+        const value = Number(event.vibeVector?.[v] || 0);
+        return [v, Number.isFinite(value) && value > 0 ? value : 0];
+      })
+    ) as VibeVector;
+    const total = Object.values(shares).reduce((sum, n) => sum + n, 0);
+    if (total > 0) {
+      return Object.fromEntries(registry.vibes.map((v) => [v, shares[v] / total]));
+    }
+  }
+  if (isRegisteredVibe(event.vibe, registry)) {
+    return Object.fromEntries(registry.vibes.map((v) => [v, v === event.vibe ? 1 : 0]));
+  }
+  return null;
+}
+
+function normalizePositive(raw: VibeVector, registry: VibeRegistry): VibeVector {
+  const positive = Object.fromEntries(
+    registry.vibes.map((v) => [v, Math.max(raw[v], 0)])
+  ) as VibeVector;
+  const total = Object.values(positive).reduce((sum, n) => sum + n, 0);
+  return Object.fromEntries(
+    registry.vibes.map((v) => [v, total > 0 ? Number((positive[v] / total).toFixed(4)) : 0])
+  );
+}
+
+function computeAvoidance(net: VibeVector, registry: VibeRegistry): VibeVector {
+  const engagement = registry.vibes.reduce((sum, v) => sum + Math.abs(net[v]), 0);
+  return Object.fromEntries(
+    registry.vibes.map((v) => [v, engagement > 0 ? Number((Math.max(-net[v], 0) / engagement).toFixed(4)) : 0])
+  );
+}
+
+function computeEventWeight(event: BuyerVibeEvent, options: BuyerVectorOptions): number {
+  return (
+    ACTION_WEIGHTS[event.action] *
+    computeRecencyWeight(event.createdAt, options) *
+    computeDwellWeight(event.dwellMs, options)
+  );
+}
+
+function dominantVibe(shares: VibeVector, registry: VibeRegistry): string | null {
+  let top: string | null = null;
+  for (const vibe of registry.vibes) {
+    if (shares[vibe] > 0 && (top === null || shares[vibe] > shares[top])) top = vibe;
+  }
+  return top;
+}
+
+// Pseudo-swipes pulled toward the population prior; a single swipe can no
+// longer produce a 100% vibe on its own. priorStrength is counted in fresh
+// swipes, so it decays with the history it is blended into: a month-old
+// profile keeps the same prior share as the day it was built.
+function applyPrior(
+  weighted: VibeVector,
+  options: BuyerVectorOptions,
+  registry: VibeRegistry,
+  decayScale: number
+): VibeVector {
+  if (!options.prior || options.priorStrength <= 0) return weighted;
+  const prior = normalizePositive(
+    Object.fromEntries(registry.vibes.map((v) => [v, Number(options.prior?.[v] || 0)])),
+    registry
+  );
+  const strength = options.priorStrength * decayScale;
+  return Object.fromEntries(
+    registry.vibes.map((v) => [v, weighted[v] + strength * prior[v]])
+  );
+}
+
+export function computeProfileConfidence(
+  events: BuyerVibeEvent[],
+  options: Partial<BuyerVectorOptions> = {},
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): number {
+  const resolved: BuyerVectorOptions = { ...DEFAULT_BUYER_VECTOR_OPTIONS, ...options };
+  let signalEvents = 0;
+  const seen = new Set<string>();
+  for (const event of events) {
+    const shares = resolveEventVector(event, registry);
+    if (!shares) continue;
+    signalEvents += 1;
+    const top = dominantVibe(shares, registry);
+    if (top) seen.add(top);
+  }
+  if (signalEvents === 0) return 0;
+  const scale = Math.max(resolved.confidenceSwipeScale, 1);
+  const volume = 1 - Math.exp(-signalEvents / scale);
+  const varietyTarget = Math.max(1, Math.min(registry.vibes.length, CONFIDENCE_VARIETY_TARGET));
+  const variety = Math.min(1, seen.size / varietyTarget);
+  return Number((volume * (0.5 + 0.5 * variety)).toFixed(3));
+}
+
+export type PopulationSwipeCount = {
+  vibeVector?: Partial<VibeVector> | null;
+  action: BuyerSwipeAction;
+  count: number;
+};
+
+export function computePopulationPrior(
+  entries: PopulationSwipeCount[],
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): VibeVector {
+  const totals = emptyVector(registry);
+  for (const entry of entries) {
+    const shares = resolveEventVector({ vibeVector: entry.vibeVector, action: entry.action }, registry);
+    if (!shares || entry.count <= 0) continue;
+    const weight = ACTION_WEIGHTS[entry.action] * entry.count;
+    for (const vibe of registry.vibes) totals[vibe] += weight * shares[vibe];
+  }
+  return normalizePositive(totals, registry);
+}
+
+export type BuyerVibeProfile = {
+  vector: VibeVector;
+  rawVector: VibeVector;
+  avoidanceVector: VibeVector;
+  avoidedVibes: Array<{ vibe: string; score: number }>;
+  topVibes: Array<{ vibe: string; score: number }>;
+  rationale: Array<{ vibe: string; weight: number }>;
+  confidence: number;
 };
 
 export function computeBuyerVibeVector(
-  events: Array<{ vibe: string | null | undefined; action: BuyerSwipeAction }>
-): {
-  vector: Record<Vibe, number>;
-  topVibes: Array<{ vibe: Vibe; score: number }>;
-  rationale: Array<{ vibe: Vibe; weight: number }>;
-} {
-  const raw = Object.fromEntries(VIBES.map((v) => [v, 0])) as Record<Vibe, number>;
+  events: BuyerVibeEvent[],
+  options: Partial<BuyerVectorOptions> = {},
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): BuyerVibeProfile {
+  const resolved: BuyerVectorOptions = { ...DEFAULT_BUYER_VECTOR_OPTIONS, ...options };
+  const raw = emptyVector(registry);
+  const weighted = emptyVector(registry);
+  // Event mass with and without recency decay, to scale the prior.
+  let decayedMass = 0;
+  let freshMass = 0;
   for (const event of events) {
-    if (!event.vibe || !isVibe(event.vibe)) continue;
-    raw[event.vibe] += ACTION_WEIGHTS[event.action];
+    const shares = resolveEventVector(event, registry);
+    if (!shares) continue;
+    const actionWeight = ACTION_WEIGHTS[event.action];
+    const eventWeight = computeEventWeight(event, resolved);
+    decayedMass += Math.abs(eventWeight);
+    freshMass += Math.abs(actionWeight * computeDwellWeight(event.dwellMs, resolved));
+    for (const vibe of registry.vibes) {
+      if (shares[vibe] <= 0) continue;
+      raw[vibe] += actionWeight * shares[vibe];
+      weighted[vibe] += eventWeight * shares[vibe];
+    }
   }
 
-  const normalizedBase = Object.fromEntries(
-    VIBES.map((v) => [v, Math.max(raw[v], 0)])
-  ) as Record<Vibe, number>;
-  const total = Object.values(normalizedBase).reduce((sum, n) => sum + n, 0);
-  const vector = Object.fromEntries(
-    VIBES.map((v) => [v, total > 0 ? Number((normalizedBase[v] / total).toFixed(4)) : 0])
-  ) as Record<Vibe, number>;
+  const decayScale = freshMass > 0 ? decayedMass / freshMass : 1;
+  const vector = normalizePositive(applyPrior(weighted, resolved, registry, decayScale), registry);
+  const rawVector = normalizePositive(raw, registry);
 
-  const topVibes = [...VIBES]
+  const topVibes = [...registry.vibes]
     .map((v) => ({ vibe: v, score: vector[v] }))
     .sort((a, b) => b.score - a.score)
     .slice(0, 3);
 
-  const rationale = [...VIBES]
-    .map((v) => ({ vibe: v, weight: Number(raw[v].toFixed(2)) }))
+  const rationale = [...registry.vibes]
+    .map((v) => ({ vibe: v, weight: Number(weighted[v].toFixed(2)) }))
     .sort((a, b) => b.weight - a.weight)
     .slice(0, 3);
 
-  return { vector, topVibes, rationale };
+  const avoidanceVector = computeAvoidance(weighted, registry);
+  const avoidedVibes = [...registry.vibes]
+    .map((v) => ({ vibe: v, score: avoidanceVector[v] }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3);
+
+  const confidence = computeProfileConfidence(events, resolved, registry);
+
+  return { vector, rawVector, avoidanceVector, avoidedVibes, topVibes, rationale, confidence };
 }
 
-export function computeVectorMatchScore(
-  buyerVector: Partial<Record<Vibe, number>> | null | undefined,
-  listingVector: Partial<Record<Vibe, number>> | null | undefined
-): number {
-  if (!buyerVector || !listingVector) return 0;
-  let dot = 0;
+export type BuyerEventContribution = {
+  index: number;
+  weight: number;
+  contributions: VibeVector;
+};
+
+// Per-event share of the weighted buyer vector, in input order. Events that
+// carry no vibe signal are omitted.
+export function explainBuyerVibeVector(
+  events: BuyerVibeEvent[],
+  options: Partial<BuyerVectorOptions> = {},
+  registry: VibeRegistry = DEFAULT_VIBE_REGISTRY
+): BuyerEventContribution[] {
+  const resolved: BuyerVectorOptions = { ...DEFAULT_BUYER_VECTOR_OPTIONS, ...options };
+  const result: BuyerEventContribution[] = [];
+  events.forEach((event, index) => {
+    const shares = resolveEventVector(event, registry);
+    if (!shares) return;
+    const weight = computeEventWeight(event, resolved);
+    const contributions = Object.fromEntries(
+      registry.vibes.map((v) => [v, Number((weight * shares[v]).toFixed(4))])
+    );
+    result.push({ index, weight: Number(weight.toFixed(4)), contributions });
+  });
+  return result;
+}
+
+export const DEFAULT_AVOIDANCE_PENALTY_WEIGHT = 0.6;
+
+export type VibeMatchContribution = {
+  vibe: string;
+  buyerWeight: number;
+  listingWeight: number;
+  avoidance: number;
+  contribution: number;
+};
+
+export type VectorMatchExplanation = {
+  score: number;
+  cosine: number;
+  avoidancePenalty: number;
+  contributions: VibeMatchContribution[];
+};
+
+export function explainVectorMatch(
+  buyerVector: Partial<VibeVector> | null | undefined,
+  listingVector: Partial<VibeVector> | null | undefined,
+  avoidanceVector?: Partial<VibeVector> | null,
+  avoidancePenaltyWeight = DEFAULT_AVOIDANCE_PENALTY_WEIGHT
+): VectorMatchExplanation {
+  const empty: VectorMatchExplanation = { score: 0, cosine: 0, avoidancePenalty: 0, contributions: [] };
+  if (!buyerVector || !listingVector) return empty;
   let buyerMagSq = 0;
   let listingMagSq = 0;
-  for (const vibe of VIBES) {
+  let listingTotal = 0;
+  let avoidedMass = 0;
+  const vibes = Array.from(new Set([...Object.keys(buyerVector), ...Object.keys(listingVector)]));
+  for (const vibe of vibes) {
     const b = Number(buyerVector[vibe] || 0);
     const l = Number(listingVector[vibe] || 0);
-    dot += b * l;
     buyerMagSq += b * b;
     listingMagSq += l * l;
+    listingTotal += Math.max(l, 0);
+    avoidedMass += Math.max(l, 0) * Number(avoidanceVector?.[vibe] || 0);
+  }
+  if (buyerMagSq <= 0 || listingMagSq <= 0) return empty;
+
+  const magnitude = Math.sqrt(buyerMagSq) * Math.sqrt(listingMagSq);
+  const avoidanceOverlap = listingTotal > 0 ? clamp(avoidedMass / listingTotal, 0, 1) : 0;
+  const penalty = 1 - clamp(avoidancePenaltyWeight, 0, 1) * avoidanceOverlap;
+
+  let cosine = 0;
+  const contributions: VibeMatchContribution[] = [];
+  for (const vibe of vibes) {
+    const b = Number(buyerVector[vibe] || 0);
+    const l = Number(listingVector[vibe] || 0);
+    const share = (b * l) / magnitude;
+    cosine += share;
+    contributions.push({
+      vibe,
+      buyerWeight: b,
+      listingWeight: l,
+      avoidance: Number(avoidanceVector?.[vibe] || 0),
+      // Points of the final score attributable to this vibe; these sum to the
+      // unrounded score.
+      contribution: Number((share * penalty * 100).toFixed(2)),
+    });
   }
-  if (buyerMagSq <= 0 || listingMagSq <= 0) return 0;
-  const cosine = dot / (Math.sqrt(buyerMagSq) * Math.sqrt(listingMagSq));
-  return clamp(Math.round(cosine * 100), 0, 100);
+  contributions.sort((a, b) => b.contribution - a.contribution);
+
+  return {
+    score: clamp(Math.round(cosine * penalty * 100), 0, 100),
+    cosine: Number(cosine.toFixed(4)),
+    avoidancePenalty: Number((1 - penalty).toFixed(4)),
+    contributions,
+  };
+}
+
+export function computeVectorMatchScore(
+  buyerVector: Partial<VibeVector> | null | undefined,
+  listingVector: Partial<VibeVector> | null | undefined,
+  avoidanceVector?: Partial<VibeVector> | null,
+  avoidancePenaltyWeight = DEFAULT_AVOIDANCE_PENALTY_WEIGHT
+): number {
+  return explainVectorMatch(buyerVector, listingVector, avoidanceVector, avoidancePenaltyWeight).score;
+}
+
+// Mean of the members' normalized vectors, so a member with more swipes does
+// not outweigh the other.
+export function combineVibeVectors(vectors: Array<Partial<VibeVector> | null | undefined>): VibeVector {
+  const combined: VibeVector = {};
+  let members = 0;
+  for (const vector of vectors) {
+    const entries = Object.entries(vector || {}).map(([vibe, value]) => [vibe, Math.max(Number(value || 0), 0)] as const);
+    const total = entries.reduce((sum, [, value]) => sum + value, 0);
+    if (total <= 0) continue;
+    members += 1;
+    for (const [vibe, value] of entries) {
+      combined[vibe] = (combined[vibe] || 0) + value / total;
+    }
+  }
+  if (members === 0) return combined;
+  return Object.fromEntries(
+    Object.entries(combined).map(([vibe, value]) => [vibe, Number((value / members).toFixed(4))])
+  );
+}
+
+export type HouseholdCompatibility = {
+  score: number;
+  pairs: Array<{ a: string; b: string; score: number }>;
+};
+
+export function computeHouseholdCompatibility(
+  members: Array<{ id: string; vector: Partial<VibeVector> | null | undefined }>
+): HouseholdCompatibility {
+  const pairs: HouseholdCompatibility["pairs"] = [];
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      pairs.push({
+        a: members[i].id,
+        b: members[j].id,
+        score: computeVectorMatchScore(members[i].vector, members[j].vector, null, 0),
+      });
+    }
+  }
+  const score = pairs.length > 0
+    ? Math.round(pairs.reduce((sum, pair) => sum + pair.score, 0) / pairs.length)
+    : 100;
+  return { score, pairs };
+}
+
+// Joint score leans on the least-satisfied member so "both of you will like
+// this" means neither member dislikes it.
+export function computeJointMatchScore(memberScores: number[]): number {
+  if (memberScores.length === 0) return 0;
+  const min = Math.min(...memberScores);
+  const mean = memberScores.reduce((sum, n) => sum + n, 0) / memberScores.length;
+  return clamp(Math.round(0.7 * min + 0.3 * mean), 0, 100);
+}
+
+export const DEFAULT_DRIFT_MIN_SHIFT = 0.1;
+
+export type TasteDrift = {
+  from: string;
+  to: string;
+  shift: number;
+};
+
+function topVibeOf(vector: Partial<VibeVector> | null | undefined): string | null {
+  let top: string | null = null;
+  let topValue = 0;
+  for (const [vibe, value] of Object.entries(vector || {})) {
+    const numeric = Number(value || 0);
+    if (numeric > topValue) {
+      top = vibe;
+      topValue = numeric;
+    }
+  }
+  return top;
+}
+
+// A drift is a change of top vibe where the new leader is ahead of the old one
+// by at least `minShift` in the current vector, so near-ties don't flap.
+export function detectTasteDrift(
+  previousVector: Partial<VibeVector> | null | undefined,
+  currentVector: Partial<VibeVector> | null | undefined,
+  minShift = DEFAULT_DRIFT_MIN_SHIFT
+): TasteDrift | null {
+  const from = topVibeOf(previousVector);
+  const to = topVibeOf(currentVector);
+  if (!from || !to || from === to) return null;
+  const shift = Number(currentVector?.[to] || 0) - Number(currentVector?.[from] || 0);
+  if (shift < minShift) return null;
+  return { from, to, shift: Number(shift.toFixed(4)) };
+}
+
+export type MatchComponent = "vibe" | "price" | "size" | "location";
+export type MatchWeights = Record<MatchComponent, number>;
+
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+  vibe: 0.55,
+  price: 0.25,
+  size: 0.12,
+  location: 0.08,
+};
+
+export type BuyerCriteria = {
+  budgetMin?: number | null;
+  budgetMax?: number | null;
+  bedrooms?: number | null;
+  minSqft?: number | null;
+  maxSqft?: number | null;
+  locations?: string[] | null;
+};
+
+export type ListingFacts = {
+  price: number;
+  bedrooms: number;
+  sqft: number;
+  location: string;
+};
+
+export type CompositeMatchResult = {
+  score: number;
+  components: Record<MatchComponent, number | null>;
+  weights: MatchWeights;
+};
+
+const PRICE_FALLOFF = 3;
+const SQFT_FALLOFF = 2;
+const BEDROOM_SHORTFALL_PENALTY = 35;
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function scoreRangeFit(value: number, min: number | null | undefined, max: number | null | undefined, falloff: number): number | null {
+  const hasMin = isPositiveNumber(min);
+  const hasMax = isPositiveNumber(max);
+  if (!hasMin && !hasMax) return null;
+  if (!isPositiveNumber(value)) return null;
+  if (hasMax && value > max!) return Math.round(100 * Math.exp(-falloff * ((value - max!) / max!)));
+  if (hasMin && value < min!) return Math.round(100 * Math.exp(-falloff * ((min! - value) / min!)));
+  return 100;
+}
+
+function scoreSizeFit(criteria: BuyerCriteria, listing: ListingFacts): number | null {
+  const parts: number[] = [];
+  if (typeof criteria.bedrooms === "number" && criteria.bedrooms >= 0) {
+    const shortfall = Math.max(0, criteria.bedrooms - (listing.bedrooms || 0));
+    parts.push(clamp(100 - shortfall * BEDROOM_SHORTFALL_PENALTY, 0, 100));
+  }
+  const sqftFit = scoreRangeFit(listing.sqft, criteria.minSqft, criteria.maxSqft, SQFT_FALLOFF);
+  if (sqftFit != null) parts.push(sqftFit);
+  if (parts.length === 0) return null;
+  return Math.round(parts.reduce((sum, n) => sum + n, 0) / parts.length);
+}
+
+function scoreLocationFit(criteria: BuyerCriteria, listing: ListingFacts): number | null {
+  const wanted = (criteria.locations || []).map((l) => l.trim().toLowerCase()).filter(Boolean);
+  if (wanted.length === 0) return null;
+  const location = (listing.location || "").toLowerCase();
+  return wanted.some((w) => location.includes(w)) ? 100 : 0;
+}
+
+export function computeCompositeMatch({
+  vibeScore,
+  criteria,
+  listing,
+  weights = DEFAULT_MATCH_WEIGHTS,
+}: {
+  vibeScore: number;
+  criteria: BuyerCriteria | null | undefined;
+  listing: ListingFacts;
+  weights?: MatchWeights;
+}): CompositeMatchResult {
+  const resolvedCriteria = criteria || {};
+  const components: Record<MatchComponent, number | null> = {
+    vibe: clamp(Math.round(vibeScore), 0, 100),
+    price: scoreRangeFit(listing.price, resolvedCriteria.budgetMin, resolvedCriteria.budgetMax, PRICE_FALLOFF),
+    size: scoreSizeFit(resolvedCriteria, listing),
+    location: scoreLocationFit(resolvedCriteria, listing),
+  };
+
+  // Components without buyer criteria drop out and the remaining weights are renormalized.
+  const keys = Object.keys(components) as MatchComponent[];
+  const activeWeight = keys.reduce(
+    (sum, key) => sum + (components[key] == null ? 0 : Math.max(weights[key], 0)),
+    0
+  );
+  const effectiveWeights = Object.fromEntries(
+    keys.map((key) => [
+      key,
+      components[key] == null || activeWeight <= 0 ? 0 : Number((Math.max(weights[key], 0) / activeWeight).toFixed(4)),
+    ])
+  ) as MatchWeights;
+
+  const score = keys.reduce((sum, key) => sum + (components[key] ?? 0) * effectiveWeights[key], 0);
+  return { score: clamp(Math.round(score), 0, 100), components, weights: effectiveWeights };
+}
+
+export function inferBuyerCriteria(
+  history: Array<{ action: BuyerSwipeAction; listing: ListingFacts | null | undefined }>
+): BuyerCriteria {
+  const positives = history.filter(
+    (entry): entry is { action: BuyerSwipeAction; listing: ListingFacts } =>
+      !!entry.listing && ACTION_WEIGHTS[entry.action] >= ACTION_WEIGHTS.like
+  );
+  if (positives.length === 0) return {};
+
+  const prices = positives.map((p) => p.listing.price).filter(isPositiveNumber).sort((a, b) => a - b);
+  const sqfts = positives.map((p) => p.listing.sqft).filter(isPositiveNumber).sort((a, b) => a - b);
+  const bedrooms = positives.map((p) => p.listing.bedrooms).filter((n) => typeof n === "number" && n >= 0);
+  const locationCounts = new Map<string, number>();
+  for (const { listing } of positives) {
+    const region = (listing.location || "").split(",").map((part) => part.trim()).filter(Boolean).pop();
+    if (region) locationCounts.set(region, (locationCounts.get(region) || 0) + 1);
+  }
+
+  return {
+    budgetMin: prices.length > 0 ? Math.round(prices[0] * 0.8) : null,
+    budgetMax: prices.length > 0 ? Math.round(prices[prices.length - 1] * 1.2) : null,
+    bedrooms: bedrooms.length > 0 ? Math.min(...bedrooms) : null,
+    minSqft: sqfts.length > 0 ? Math.round(sqfts[0] * 0.8) : null,
+    maxSqft: null,
+    locations: Array.from(locationCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([region]) => region),
+  };
+}
+
+export type ListingSimilarityWeights = {
+  vibe: number;
+  price: number;
+  bedrooms: number;
+};
+
+export const DEFAULT_LISTING_SIMILARITY_WEIGHTS: ListingSimilarityWeights = {
+  vibe: 0.7,
+  price: 0.2,
+  bedrooms: 0.1,
+};
+
+export type ListingSimilarityInput = {
+  vector: Partial<VibeVector> | null | undefined;
+  price: number;
+  bedrooms: number;
+};
+
+export type ListingSimilarity = {
+  score: number;
+  components: { vibe: number; price: number; bedrooms: number };
+};
+
+export function computeListingSimilarity(
+  base: ListingSimilarityInput,
+  other: ListingSimilarityInput,
+  weights: ListingSimilarityWeights = DEFAULT_LISTING_SIMILARITY_WEIGHTS
+): ListingSimilarity {
+  const vibe = computeVectorMatchScore(base.vector, other.vector, null, 0);
+  // Price proximity on a log scale: half the price or double the price is ~25.
+  const price = base.price > 0 && other.price > 0
+    ? Math.round(100 * Math.exp(-2 * Math.abs(Math.log(other.price / base.price))))
+    : 0;
+  const bedrooms = Math.round(100 * Math.max(0, 1 - Math.abs(other.bedrooms - base.bedrooms) / 3));
+
+  const totalWeight = weights.vibe + weights.price + weights.bedrooms;
+  const score = totalWeight > 0
+    ? Math.round((vibe * weights.vibe + price * weights.price + bedrooms * weights.bedrooms) / totalWeight)
+    : 0;
+  return { score: clamp(score, 0, 100), components: { vibe, price, bedrooms } };
+}
+
+export type FeedPickReason = "exploit" | "explore" | "diversity";
+
+export type FeedCandidate<T> = {
+  item: T;
+  vector: Partial<VibeVector> | null;
+  topVibe: string | null;
+};
+
+export type FeedRankingOptions = {
+  exploreRate: number;
+  maxVibeRun: number;
+  random?: () => number;
+};
+
+export const DEFAULT_FEED_RANKING_OPTIONS: FeedRankingOptions = {
+  exploreRate: 0.2,
+  maxVibeRun: 2,
+};
+
+export type RankedFeedItem<T> = {
+  item: T;
+  score: number;
+  reason: FeedPickReason;
+};
+
+// Small deterministic PRNG so a buyer sees a stable order across page
+// requests until their next swipe changes the seed.
+export function createSeededRandom(seed: string): () => number {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 16777619);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function rankFeedCandidates<T>(
+  candidates: FeedCandidate<T>[],
+  buyer: Pick<BuyerVibeProfile, "vector" | "avoidanceVector" | "topVibes">,
+  options: Partial<FeedRankingOptions> = {}
+): RankedFeedItem<T>[] {
+  const resolved: FeedRankingOptions = { ...DEFAULT_FEED_RANKING_OPTIONS, ...options };
+  const random = resolved.random ?? Math.random;
+  const exploreRate = clamp(resolved.exploreRate, 0, 1);
+  const maxRun = Math.max(1, Math.floor(resolved.maxVibeRun));
+  const buyerVibes = new Set(buyer.topVibes.filter((v) => v.score > 0).map((v) => v.vibe));
+
+  const scored = candidates.map((candidate) => ({
+    candidate,
+    score: computeVectorMatchScore(buyer.vector, candidate.vector, buyer.avoidanceVector),
+  }));
+  const exploit = scored
+    .filter((entry) => !entry.candidate.topVibe || buyerVibes.has(entry.candidate.topVibe))
+    .sort((a, b) => b.score - a.score);
+  const explore = scored.filter((entry) => entry.candidate.topVibe && !buyerVibes.has(entry.candidate.topVibe));
+  for (let i = explore.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [explore[i], explore[j]] = [explore[j], explore[i]];
+  }
+
+  const ranked: RankedFeedItem<T>[] = [];
+  const recentVibes: Array<string | null> = [];
+  const breaksRun = (vibe: string | null) =>
+    vibe !== null && recentVibes.length >= maxRun && recentVibes.slice(-maxRun).every((v) => v === vibe);
+
+  while (exploit.length > 0 || explore.length > 0) {
+    const wantsExplore = explore.length > 0 && (exploit.length === 0 || random() < exploreRate);
+    let pool = wantsExplore ? explore : exploit;
+    let index = 0;
+    let reason: FeedPickReason = wantsExplore ? "explore" : "exploit";
+
+    if (breaksRun(pool[0].candidate.topVibe)) {
+      // Serve the best listing that breaks the streak; if none is left, the
+      // streak continues.
+      for (const alt of [exploit, explore]) {
+        const altIndex = alt.findIndex((entry) => !breaksRun(entry.candidate.topVibe));
+        if (altIndex >= 0) {
+          pool = alt;
+          index = altIndex;
+          reason = "diversity";
+          break;
+        }
+      }
+    }
+
+    const [entry] = pool.splice(index, 1);
+    ranked.push({ item: entry.candidate.item, score: entry.score, reason });
+    recentVibes.push(entry.candidate.topVibe);
+  }
+
+  return ranked;
 }
 
 export function buildStagingPrompt({
   vibe,
   roomDescription,
   constraints,
+  registry = DEFAULT_VIBE_REGISTRY,
 }: {
   vibe: string;
   roomDescription?: string;
   constraints?: string[];
+  registry?: VibeRegistry;
 }): string {
-  const normalized = isVibe(vibe) ? vibe : "Classicist";
-  const definition = VIBE_DEFINITIONS[normalized];
+  const normalized = isRegisteredVibe(vibe, registry) && registry.definitions[vibe] ? vibe : "Classicist";
+  const definition = registry.definitions[normalized] ?? VIBE_DEFINITIONS.Classicist;
 
   const allConstraints = [...REQUIRED_STAGING_CONSTRAINTS, ...(constraints || [])];
   const uniqueConstraints = Array.from(new Set(allConstraints.map((c) => c.trim()).filter(Boolean)));